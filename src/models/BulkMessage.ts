@@ -6,13 +6,21 @@ export interface IBulkMessage extends Document {
   aiRewrittenMessage: string;
   category: 'promotional' | 'notification' | 'advertising' | 'discount_offer' | 'information' | 'other';
   selectedContacts: mongoose.Types.ObjectId[];
+  mediaId?: mongoose.Types.ObjectId; // Attachment sent with the message text as its caption
+  templateId?: mongoose.Types.ObjectId; // Template the message was rendered from
+  segmentId?: mongoose.Types.ObjectId; // Segment the recipients were picked from at send time
   totalContacts: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'scheduled' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: {
     total: number;
     sent: number;
     failed: number;
     pending: number;
+    cancelled: number;
+    delivered: number;
+    read: number;
+    replied: number;
+    optedOut: number; // Opt-out requests sent in reply, not counted as replies
   };
   spamWords: string[];
   replacements: Array<{
@@ -20,8 +28,54 @@ export interface IBulkMessage extends Document {
     replacement: string;
     reason: string;
   }>;
+  scheduledAt?: Date;
+  timezone?: string;
   startedAt?: Date;
+  pausedAt?: Date;
+  cancelledAt?: Date;
   completedAt?: Date;
+  projectedCompletionAt?: Date;
+  variants: Array<{
+    key: string; // A-E
+    message: string;
+    aiRewrittenMessage: string;
+    spamWords: string[];
+    ratio: number; // Percentage of contacts assigned to this variant
+    stats: {
+      assigned: number;
+      sent: number;
+      delivered: number;
+      read: number;
+      replied: number;
+      failed: number;
+    };
+  }>;
+  abTest?: {
+    mode: 'split' | 'winner';
+    seed: string;
+    testPercent?: number;
+    waitHours?: number;
+    metric?: 'delivered' | 'read' | 'replied';
+    winnerKey?: string;
+    decidedAt?: Date;
+  };
+  throttle: {
+    level: number; // Index into the delay multipliers, 0 = user's own message delay
+    decisions: Array<{
+      action: 'slow_down' | 'speed_up' | 'pause';
+      level: number;
+      multiplier: number;
+      failureRate: number; // Weighted failure percentage of the recent sends
+      reason: string;
+      decidedAt: Date;
+    }>;
+  };
+  retryHistory: Array<{
+    requestedAt: Date;
+    failureClasses: string[]; // Empty when every failed message was retried
+    messageCount: number;
+    byFailureClass: Array<{ failureClass: string; count: number }>;
+  }>;
   errorMessage?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -36,12 +90,14 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
   },
   originalMessage: {
     type: String,
-    required: [true, 'Original message is required'],
+    // Media-only messages have no text
+    required: [function(this: any) { return !this.mediaId; }, 'Original message is required'],
     maxlength: [4096, 'Message cannot exceed 4096 characters']
   },
   aiRewrittenMessage: {
     type: String,
-    required: [true, 'AI rewritten message is required'],
+    // Media-only messages have no text
+    required: [function(this: any) { return !this.mediaId; }, 'AI rewritten message is required'],
     maxlength: [4096, 'Message cannot exceed 4096 characters']
   },
   category: {
@@ -55,6 +111,18 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
     ref: 'Contact',
     required: true
   }],
+  mediaId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MediaAsset'
+  },
+  templateId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MessageTemplate'
+  },
+  segmentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Segment'
+  },
   totalContacts: {
     type: Number,
     required: true,
@@ -62,7 +130,7 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
   },
   status: {
     type: String,
-    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    enum: ['pending', 'scheduled', 'processing', 'paused', 'completed', 'failed', 'cancelled'],
     default: 'pending',
     index: true
   },
@@ -82,6 +150,26 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
     pending: {
       type: Number,
       default: 0
+    },
+    cancelled: {
+      type: Number,
+      default: 0
+    },
+    delivered: {
+      type: Number,
+      default: 0
+    },
+    read: {
+      type: Number,
+      default: 0
+    },
+    replied: {
+      type: Number,
+      default: 0
+    },
+    optedOut: {
+      type: Number,
+      default: 0
     }
   },
   spamWords: [{
@@ -102,12 +190,110 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
       required: true
     }
   }],
+  scheduledAt: {
+    type: Date
+  },
+  timezone: {
+    type: String,
+    trim: true
+  },
   startedAt: {
     type: Date
   },
+  pausedAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
   completedAt: {
     type: Date
   },
+  projectedCompletionAt: {
+    type: Date
+  },
+  variants: [{
+    _id: false,
+    key: {
+      type: String,
+      required: true
+    },
+    message: {
+      type: String,
+      maxlength: [4096, 'Message cannot exceed 4096 characters']
+    },
+    aiRewrittenMessage: {
+      type: String,
+      maxlength: [4096, 'Message cannot exceed 4096 characters']
+    },
+    spamWords: [{
+      type: String,
+      trim: true
+    }],
+    ratio: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    stats: {
+      assigned: { type: Number, default: 0 },
+      sent: { type: Number, default: 0 },
+      delivered: { type: Number, default: 0 },
+      read: { type: Number, default: 0 },
+      replied: { type: Number, default: 0 },
+      failed: { type: Number, default: 0 }
+    }
+  }],
+  abTest: {
+    mode: {
+      type: String,
+      enum: ['split', 'winner']
+    },
+    seed: String,
+    testPercent: Number,
+    waitHours: Number,
+    metric: {
+      type: String,
+      enum: ['delivered', 'read', 'replied']
+    },
+    winnerKey: String,
+    decidedAt: Date
+  },
+  throttle: {
+    level: {
+      type: Number,
+      default: 0
+    },
+    decisions: [{
+      _id: false,
+      action: {
+        type: String,
+        enum: ['slow_down', 'speed_up', 'pause']
+      },
+      level: Number,
+      multiplier: Number,
+      failureRate: Number,
+      reason: String,
+      decidedAt: Date
+    }]
+  },
+  retryHistory: [{
+    _id: false,
+    requestedAt: {
+      type: Date,
+      required: true
+    },
+    failureClasses: [String],
+    messageCount: {
+      type: Number,
+      required: true
+    },
+    byFailureClass: [{
+      _id: false,
+      failureClass: String,
+      count: Number
+    }]
+  }],
   errorMessage: {
     type: String
   }
@@ -118,18 +304,35 @@ const BulkMessageSchema = new Schema<IBulkMessage>({
 // Indexes for efficient querying
 BulkMessageSchema.index({ userId: 1, status: 1 });
 BulkMessageSchema.index({ createdAt: -1 });
+BulkMessageSchema.index({ status: 1, scheduledAt: 1 });
 
 // Virtual for progress percentage
 BulkMessageSchema.virtual('progressPercentage').get(function() {
   if (this.progress.total === 0) return 0;
-  return Math.round((this.progress.sent + this.progress.failed) / this.progress.total * 100);
+  return Math.round((this.progress.sent + this.progress.failed + (this.progress.cancelled || 0)) / this.progress.total * 100);
+});
+
+// Virtuals for delivery, read and reply rates, as a percentage of sent messages
+BulkMessageSchema.virtual('deliveryRate').get(function() {
+  if (!this.progress.sent) return 0;
+  return Math.round((this.progress.delivered || 0) / this.progress.sent * 100);
+});
+
+BulkMessageSchema.virtual('readRate').get(function() {
+  if (!this.progress.sent) return 0;
+  return Math.round((this.progress.read || 0) / this.progress.sent * 100);
+});
+
+BulkMessageSchema.virtual('replyRate').get(function() {
+  if (!this.progress.sent) return 0;
+  return Math.round((this.progress.replied || 0) / this.progress.sent * 100);
 });
 
 // Method to update progress
 BulkMessageSchema.methods.updateProgress = function(sent: number, failed: number) {
   this.progress.sent = sent;
   this.progress.failed = failed;
-  this.progress.pending = this.progress.total - sent - failed;
+  this.progress.pending = this.progress.total - sent - failed - (this.progress.cancelled || 0);
   
   if (this.progress.pending === 0) {
     this.status = 'completed';
@@ -3,10 +3,26 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface IContact extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
-  phone: string;
+  phone: string; // E.164, e.g. +919876543210
+  phoneRaw?: string; // Number as it was entered or imported
+  phoneCountry?: string; // ISO country of the number, when its calling code is known
   email?: string;
   category?: string; // Contact category for personalization
   tags?: string[]; // Tags for better segmentation
+  customFields?: Map<string, string | number | Date>; // Values of the user's ContactField definitions, by key
+  whatsappStatus: 'valid' | 'invalid' | 'unknown'; // Whether the number is registered on WhatsApp
+  whatsappCheckedAt?: Date;
+  engagementScore?: number; // 0-100, recomputed nightly from campaign and conversation activity
+  engagement?: {
+    attempted: number; // Campaign messages sent or failed
+    delivered: number;
+    read: number;
+    replied: number;
+    conversations: number; // Messages the contact sent to the auto-reply
+    bookings: number; // Confirmed auto-reply bookings
+    lastInteractionAt?: Date;
+  };
+  engagementScoredAt?: Date;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -33,11 +49,19 @@ const ContactSchema = new Schema<IContact>({
       validator: function(v: string) {
         // Remove all non-digit characters and check if it's a valid phone number
         const cleaned = v.replace(/\D/g, '');
-        return cleaned.length >= 10 && cleaned.length <= 15;
+        return cleaned.length >= 8 && cleaned.length <= 15;
       },
-      message: 'Phone number must be between 10-15 digits'
+      message: 'Phone number must be between 8-15 digits'
     }
   },
+  phoneRaw: {
+    type: String,
+    trim: true
+  },
+  phoneCountry: {
+    type: String,
+    uppercase: true
+  },
   email: {
     type: String,
     lowercase: true,
@@ -56,6 +80,36 @@ const ContactSchema = new Schema<IContact>({
     trim: true,
     lowercase: true
   }],
+  customFields: {
+    type: Map,
+    of: Schema.Types.Mixed,
+    default: undefined
+  },
+  whatsappStatus: {
+    type: String,
+    enum: ['valid', 'invalid', 'unknown'],
+    default: 'unknown'
+  },
+  whatsappCheckedAt: {
+    type: Date
+  },
+  engagementScore: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  engagement: {
+    attempted: Number,
+    delivered: Number,
+    read: Number,
+    replied: Number,
+    conversations: Number,
+    bookings: Number,
+    lastInteractionAt: Date
+  },
+  engagementScoredAt: {
+    type: Date
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -69,17 +123,16 @@ ContactSchema.index({ userId: 1, phone: 1 }, { unique: true });
 
 // Additional indexes for performance
 ContactSchema.index({ userId: 1, isActive: 1 }); // For filtering active contacts by user
+ContactSchema.index({ userId: 1, whatsappStatus: 1 }); // For filtering and verifying by WhatsApp status
+ContactSchema.index({ userId: 1, engagementScore: -1 }); // For sorting and segmenting by engagement
 ContactSchema.index({ phone: 1 }); // For phone number lookups
 ContactSchema.index({ name: 'text', phone: 'text' }); // Text search index
 ContactSchema.index({ createdAt: -1 }); // For sorting by creation date
 
 // Virtual for formatted phone number
 ContactSchema.virtual('formattedPhone').get(function() {
-  const cleaned = this.phone.replace(/\D/g, '');
-  if (cleaned.length === 10) {
-    return `+1${cleaned}`;
-  }
-  return cleaned.startsWith('+') ? cleaned : `+${cleaned}`;
+  // Numbers are stored in E.164; ones saved before normalization are shown as stored
+  return this.phone.startsWith('+') ? this.phone : this.phone.replace(/\D/g, '');
 });
 
 export default mongoose.model<IContact>('Contact', ContactSchema);
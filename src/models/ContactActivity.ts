@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const ACTIVITY_SOURCES = ['bulk', 'import', 'merge', 'merge_undo'] as const;
+
+export interface IContactActivity extends Document {
+  userId: mongoose.Types.ObjectId;
+  contactId: mongoose.Types.ObjectId;
+  type: 'tags' | 'category';
+  source: typeof ACTIVITY_SOURCES[number]; // What made the change
+  addedTags?: string[];
+  removedTags?: string[];
+  fromCategory?: string;
+  toCategory?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContactActivitySchema = new Schema<IContactActivity>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  contactId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['tags', 'category'],
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ACTIVITY_SOURCES,
+    required: true
+  },
+  addedTags: {
+    type: [String],
+    default: undefined
+  },
+  removedTags: {
+    type: [String],
+    default: undefined
+  },
+  fromCategory: {
+    type: String
+  },
+  toCategory: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+ContactActivitySchema.index({ userId: 1, contactId: 1, createdAt: -1 });
+
+export default mongoose.model<IContactActivity>('ContactActivity', ContactActivitySchema);
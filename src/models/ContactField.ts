@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const FIELD_TYPES = ['string', 'number', 'date', 'enum'] as const;
+
+export interface IContactField extends Document {
+  userId: mongoose.Types.ObjectId;
+  key: string; // Stored under contact.customFields and used as the template variable name
+  label: string;
+  type: typeof FIELD_TYPES[number];
+  options: string[]; // Allowed values of an enum field
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContactFieldSchema = new Schema<IContactField>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  key: {
+    type: String,
+    required: [true, 'Field key is required'],
+    trim: true,
+    maxlength: [50, 'Key cannot exceed 50 characters'],
+    match: [/^[A-Za-z_][A-Za-z0-9_]*$/, 'Field keys may only contain letters, numbers and underscores']
+  },
+  label: {
+    type: String,
+    required: [true, 'Field label is required'],
+    trim: true,
+    maxlength: [100, 'Label cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: FIELD_TYPES,
+    required: [true, 'Field type is required']
+  },
+  options: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Option cannot exceed 100 characters']
+  }]
+}, {
+  timestamps: true
+});
+
+// Field keys are unique per user
+ContactFieldSchema.index({ userId: 1, key: 1 }, { unique: true });
+
+export default mongoose.model<IContactField>('ContactField', ContactFieldSchema);
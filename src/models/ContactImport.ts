@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const DUPLICATE_POLICIES = ['skip', 'update', 'merge_tags'] as const;
+
+export interface IContactImport extends Document {
+  userId: mongoose.Types.ObjectId;
+  fileName: string;
+  status: 'uploaded' | 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  source: 'mapped' | 'upload'; // Two-step import, or the one-step /api/contacts/upload
+  headers: string[];
+  totalRows: number;
+  processedRows: number; // Rows written so far; a resumed job carries on from here
+  suggestedMapping: { [header: string]: string };
+  mapping?: { [header: string]: string }; // Column header -> contact field, as committed
+  duplicatePolicy?: typeof DUPLICATE_POLICIES[number];
+  defaultCategory?: string;
+  defaultTags: string[];
+  result: {
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+  };
+  rowErrors: Array<{
+    row: number; // Spreadsheet row number, counting the header row
+    name?: string;
+    phone?: string;
+    error: string;
+  }>;
+  errorMessage?: string;
+  queuedAt?: Date;
+  startedAt?: Date;
+  cancelledAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContactImportSchema = new Schema<IContactImport>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  fileName: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['uploaded', 'queued', 'processing', 'completed', 'failed', 'cancelled'],
+    default: 'uploaded'
+  },
+  source: {
+    type: String,
+    enum: ['mapped', 'upload'],
+    default: 'mapped'
+  },
+  headers: [{
+    type: String
+  }],
+  totalRows: {
+    type: Number,
+    default: 0
+  },
+  processedRows: {
+    type: Number,
+    default: 0
+  },
+  suggestedMapping: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  mapping: {
+    type: Schema.Types.Mixed
+  },
+  duplicatePolicy: {
+    type: String,
+    enum: DUPLICATE_POLICIES
+  },
+  defaultCategory: {
+    type: String
+  },
+  defaultTags: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  result: {
+    created: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  rowErrors: [{
+    _id: false,
+    row: Number,
+    name: String,
+    phone: String,
+    error: String
+  }],
+  errorMessage: {
+    type: String
+  },
+  queuedAt: {
+    type: Date
+  },
+  startedAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+ContactImportSchema.index({ userId: 1, createdAt: -1 });
+ContactImportSchema.index({ status: 1 });
+
+export default mongoose.model<IContactImport>('ContactImport', ContactImportSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IContactMerge extends Document {
+  userId: mongoose.Types.ObjectId;
+  survivorId: mongoose.Types.ObjectId;
+  mergedContactIds: mongoose.Types.ObjectId[];
+  survivorBefore: any; // Survivor as it was before the merge
+  mergedContacts: any[]; // Full copies of the removed contacts, restored on undo
+  repointed: {
+    messages: Array<{ contactId: mongoose.Types.ObjectId; messageIds: mongoose.Types.ObjectId[] }>;
+    histories: Array<{ customerPhone: string; historyIds: mongoose.Types.ObjectId[] }>;
+    states: Array<{ stateId: mongoose.Types.ObjectId; customerPhone: string }>;
+  };
+  removedStates: any[]; // Conversation states dropped because the survivor already had one
+  status: 'merged' | 'undone';
+  undoExpiresAt: Date;
+  undoneAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContactMergeSchema = new Schema<IContactMerge>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  survivorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true
+  },
+  mergedContactIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Contact'
+  }],
+  survivorBefore: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  mergedContacts: [{
+    type: Schema.Types.Mixed
+  }],
+  repointed: {
+    messages: [{
+      _id: false,
+      contactId: Schema.Types.ObjectId,
+      messageIds: [Schema.Types.ObjectId]
+    }],
+    histories: [{
+      _id: false,
+      customerPhone: String,
+      historyIds: [Schema.Types.ObjectId]
+    }],
+    states: [{
+      _id: false,
+      stateId: Schema.Types.ObjectId,
+      customerPhone: String
+    }]
+  },
+  removedStates: [{
+    type: Schema.Types.Mixed
+  }],
+  status: {
+    type: String,
+    enum: ['merged', 'undone'],
+    default: 'merged'
+  },
+  undoExpiresAt: {
+    type: Date,
+    required: true
+  },
+  undoneAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+ContactMergeSchema.index({ userId: 1, createdAt: -1 });
+
+// Merge records are kept for 30 days, well past the undo window
+ContactMergeSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model<IContactMerge>('ContactMerge', ContactMergeSchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type MediaKind = 'image' | 'document' | 'video' | 'audio';
+
+export interface IMediaAsset extends Document {
+  userId: mongoose.Types.ObjectId;
+  kind: MediaKind;
+  mimetype: string;
+  originalName: string;
+  storagePath: string; // Location on disk, relative to the media directory
+  size: number; // Bytes
+  sendAsVoice: boolean; // Deliver audio as a voice note rather than a file
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MediaAssetSchema = new Schema<IMediaAsset>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  kind: {
+    type: String,
+    enum: ['image', 'document', 'video', 'audio'],
+    required: true
+  },
+  mimetype: {
+    type: String,
+    required: true
+  },
+  originalName: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [255, 'File name cannot exceed 255 characters']
+  },
+  storagePath: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  sendAsVoice: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+MediaAssetSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<IMediaAsset>('MediaAsset', MediaAssetSchema);
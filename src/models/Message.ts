@@ -3,6 +3,10 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface IMessage extends Document {
   userId: mongoose.Types.ObjectId;
   contactId: mongoose.Types.ObjectId;
+  bulkMessageId?: mongoose.Types.ObjectId;
+  mediaId?: mongoose.Types.ObjectId; // Attachment sent with the message text as its caption
+  variant?: string; // A/B variant key
+  awaitingWinner?: boolean; // Held back until the campaign's A/B test picks a winner
   originalMessage: string;
   aiRewrittenMessage: string;
   category: 'promotional' | 'notification' | 'advertising' | 'discount_offer' | 'information' | 'other';
@@ -12,11 +16,14 @@ export interface IMessage extends Document {
     replacement: string;
     reason: string;
   }>;
-  status: 'pending' | 'processing' | 'sent' | 'failed' | 'delivered' | 'read';
+  status: 'pending' | 'processing' | 'retrying' | 'sent' | 'failed' | 'delivered' | 'read' | 'paused' | 'cancelled'; // retrying: failed, waiting for a queue retry
   whatsappMessageId?: string;
   sentAt?: Date;
   deliveredAt?: Date;
   readAt?: Date;
+  repliedAt?: Date;
+  replyCount: number;
+  optedOutAt?: Date; // The recipient opted out in reply to this message
   errorMessage?: string;
   retryCount: number;
   createdAt: Date;
@@ -36,14 +43,31 @@ const MessageSchema = new Schema<IMessage>({
     required: [true, 'Contact ID is required'],
     index: true
   },
+  bulkMessageId: {
+    type: Schema.Types.ObjectId,
+    ref: 'BulkMessage',
+    index: true
+  },
+  mediaId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MediaAsset'
+  },
+  variant: {
+    type: String
+  },
+  awaitingWinner: {
+    type: Boolean
+  },
   originalMessage: {
     type: String,
-    required: [true, 'Original message is required'],
+    // Media-only messages have no text
+    required: [function(this: any) { return !this.mediaId; }, 'Original message is required'],
     maxlength: [4096, 'Message cannot exceed 4096 characters']
   },
   aiRewrittenMessage: {
     type: String,
-    required: [true, 'AI rewritten message is required'],
+    // Media-only messages have no text
+    required: [function(this: any) { return !this.mediaId; }, 'AI rewritten message is required'],
     maxlength: [4096, 'Message cannot exceed 4096 characters']
   },
   category: {
@@ -72,13 +96,14 @@ const MessageSchema = new Schema<IMessage>({
   }],
   status: {
     type: String,
-    enum: ['pending', 'processing', 'sent', 'failed', 'delivered', 'read'],
+    enum: ['pending', 'processing', 'retrying', 'sent', 'failed', 'delivered', 'read', 'paused', 'cancelled'],
     default: 'pending',
     index: true
   },
   whatsappMessageId: {
     type: String,
-    sparse: true
+    sparse: true,
+    index: true
   },
   sentAt: {
     type: Date
@@ -89,6 +114,16 @@ const MessageSchema = new Schema<IMessage>({
   readAt: {
     type: Date
   },
+  repliedAt: {
+    type: Date
+  },
+  replyCount: {
+    type: Number,
+    default: 0
+  },
+  optedOutAt: {
+    type: Date
+  },
   errorMessage: {
     type: String
   },
@@ -104,6 +139,8 @@ const MessageSchema = new Schema<IMessage>({
 // Compound indexes for efficient querying
 MessageSchema.index({ userId: 1, status: 1 });
 MessageSchema.index({ contactId: 1, createdAt: -1 });
+MessageSchema.index({ bulkMessageId: 1, status: 1 });
+MessageSchema.index({ userId: 1, contactId: 1, sentAt: -1 });
 MessageSchema.index({ createdAt: -1 });
 
 // TTL index to automatically delete old messages after 90 days
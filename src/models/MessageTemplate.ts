@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITemplateVariable {
+  name: string;
+  defaultValue?: string;
+  required: boolean; // Renders fail when a required variable has neither a value nor a default
+}
+
+export interface IMessageTemplate extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  body: string; // Text with {{variable}} placeholders
+  category: 'promotional' | 'notification' | 'advertising' | 'discount_offer' | 'information' | 'other';
+  variables: ITemplateVariable[];
+  lastAnalysis?: {
+    isSpam: boolean;
+    spamWords: string[];
+    complianceScore: number;
+    riskLevel?: string;
+    analyzedAt: Date;
+  };
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageTemplateSchema = new Schema<IMessageTemplate>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Template body is required'],
+    maxlength: [4096, 'Template cannot exceed 4096 characters']
+  },
+  category: {
+    type: String,
+    enum: ['promotional', 'notification', 'advertising', 'discount_offer', 'information', 'other'],
+    default: 'other'
+  },
+  variables: [{
+    _id: false,
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      match: [/^[A-Za-z_][A-Za-z0-9_]*$/, 'Variable names may only contain letters, numbers and underscores']
+    },
+    defaultValue: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Default value cannot exceed 500 characters']
+    },
+    required: {
+      type: Boolean,
+      default: true
+    }
+  }],
+  lastAnalysis: {
+    isSpam: Boolean,
+    spamWords: [String],
+    complianceScore: Number,
+    riskLevel: String,
+    analyzedAt: Date
+  },
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  lastUsedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Template names are unique per user
+MessageTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
+MessageTemplateSchema.index({ userId: 1, category: 1 });
+
+export default mongoose.model<IMessageTemplate>('MessageTemplate', MessageTemplateSchema);
@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const CAMPAIGN_CONDITIONS = ['sent', 'delivered', 'read', 'replied', 'not_delivered', 'not_read', 'not_replied'] as const;
+
+// Comparisons on custom contact fields; the *_days operators apply to date fields
+export const FIELD_OPERATORS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in', 'exists', 'not_exists', 'within_last_days', 'older_than_days'
+] as const;
+
+export interface ISegmentFilters {
+  categories?: string[];
+  tags?: string[];
+  tagMatch?: 'any' | 'all';
+  excludeTags?: string[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  engagedWithinDays?: number; // Read or replied to a campaign message in the last N days
+  notEngagedWithinDays?: number;
+  minEngagementScore?: number; // Nightly engagement score range; contacts not scored yet match neither bound
+  maxEngagementScore?: number;
+  campaigns?: Array<{
+    bulkMessageId: mongoose.Types.ObjectId | string;
+    condition: typeof CAMPAIGN_CONDITIONS[number];
+  }>;
+  customFields?: Array<{
+    key: string;
+    operator: typeof FIELD_OPERATORS[number];
+    value?: any;
+  }>;
+  optOut?: 'exclude' | 'include' | 'only';
+}
+
+export interface ISegment extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  filters: ISegmentFilters; // Evaluated against the contact list every time the segment is used
+  lastCount?: number;
+  lastEvaluatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SegmentSchema = new Schema<ISegment>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Segment name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  filters: {
+    categories: [{
+      type: String,
+      enum: ['general', 'vip', 'customer', 'lead', 'partner', 'other']
+    }],
+    tags: [{
+      type: String,
+      trim: true,
+      lowercase: true
+    }],
+    tagMatch: {
+      type: String,
+      enum: ['any', 'all'],
+      default: 'any'
+    },
+    excludeTags: [{
+      type: String,
+      trim: true,
+      lowercase: true
+    }],
+    createdAfter: Date,
+    createdBefore: Date,
+    engagedWithinDays: {
+      type: Number,
+      min: 1
+    },
+    notEngagedWithinDays: {
+      type: Number,
+      min: 1
+    },
+    minEngagementScore: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    maxEngagementScore: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
+    campaigns: [{
+      _id: false,
+      bulkMessageId: {
+        type: Schema.Types.ObjectId,
+        ref: 'BulkMessage',
+        required: true
+      },
+      condition: {
+        type: String,
+        enum: CAMPAIGN_CONDITIONS,
+        required: true
+      }
+    }],
+    customFields: [{
+      _id: false,
+      key: {
+        type: String,
+        required: true
+      },
+      operator: {
+        type: String,
+        enum: FIELD_OPERATORS,
+        required: true
+      },
+      value: Schema.Types.Mixed
+    }],
+    optOut: {
+      type: String,
+      enum: ['exclude', 'include', 'only'],
+      default: 'exclude'
+    }
+  },
+  lastCount: {
+    type: Number
+  },
+  lastEvaluatedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Segment names are unique per user
+SegmentSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<ISegment>('Segment', SegmentSchema);
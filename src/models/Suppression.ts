@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISuppression extends Document {
+  userId: mongoose.Types.ObjectId;
+  phone: string; // E.164; entries from before numbers were normalized hold digits only
+  reason: 'opt_out' | 'manual' | 'import';
+  keyword?: string; // Inbound text that triggered an opt-out
+  note?: string;
+  confirmationSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SuppressionSchema = new Schema<ISuppression>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required'],
+    trim: true,
+    validate: {
+      validator: function(v: string) {
+        return /^\+?\d{6,15}$/.test(v);
+      },
+      message: 'Phone number must be between 6-15 digits'
+    }
+  },
+  reason: {
+    type: String,
+    enum: ['opt_out', 'manual', 'import'],
+    default: 'manual'
+  },
+  keyword: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Keyword cannot exceed 200 characters']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  confirmationSentAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One entry per number per user
+SuppressionSchema.index({ userId: 1, phone: 1 }, { unique: true });
+SuppressionSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<ISuppression>('Suppression', SuppressionSchema);
@@ -0,0 +1,91 @@
+import Bull from 'bull';
+import redis from '../../config/redis';
+import whatsappService from '../../services/whatsappService';
+import '../contactVerification';
+
+// The queue keeps the event handlers the route registers so they can be run directly
+jest.mock('bull', () => jest.fn().mockImplementation(() => {
+  const handlers: { [event: string]: (...args: any[]) => Promise<any> } = {};
+  return {
+    handlers,
+    process: jest.fn(),
+    on: jest.fn((event: string, handler: any) => { handlers[event] = handler; }),
+    add: jest.fn()
+  };
+}));
+
+jest.mock('../../config/redis', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), set: jest.fn(), del: jest.fn() }
+}));
+jest.mock('../../middleware/auth', () => ({ authenticate: jest.fn() }));
+jest.mock('../../middleware/cache', () => ({ clearCache: jest.fn() }));
+jest.mock('../../models/Contact', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/whatsappService', () => ({
+  __esModule: true,
+  default: { isConnected: jest.fn(), emitToUser: jest.fn() }
+}));
+
+const redisClient = redis as any;
+const whatsapp = whatsappService as any;
+
+const jobFailed = (Bull as unknown as jest.Mock).mock.results[0].value.handlers.failed;
+
+const RUN = { runId: 'run-1', status: 'running', total: 40, checked: 20, valid: 18, invalid: 1, unknown: 1, startedAt: '2026-10-19T12:00:00.000Z' };
+
+const checkJob = (finishedOn?: number) => ({
+  data: { userId: 'user-1', runId: 'run-1' },
+  attemptsMade: 5,
+  opts: { attempts: 5 },
+  finishedOn
+});
+
+// Runs written to Redis, in order
+const savedRuns = () => redisClient.set.mock.calls.map(([, value]: any[]) => JSON.parse(value));
+
+describe('WhatsApp number check: failed jobs', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    redisClient.get.mockResolvedValue(JSON.stringify(RUN));
+    whatsapp.isConnected.mockReturnValue(true);
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined); // The handler logs each failure
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('fails the run and frees the slot once Bull gives up on any error', async () => {
+    await jobFailed(checkJob(Date.now()), new Error('Connection reset'));
+
+    expect(savedRuns()).toEqual([
+      expect.objectContaining({ runId: 'run-1', status: 'failed', errorMessage: 'The WhatsApp number check stopped after repeated errors' })
+    ]);
+    expect(redisClient.del).toHaveBeenCalledWith('whatsapp-check-slot:user-1');
+  });
+
+  it('tells the user when WhatsApp was disconnected', async () => {
+    whatsapp.isConnected.mockReturnValue(false);
+
+    await jobFailed(checkJob(Date.now()), new Error('WhatsApp is not connected for user user-1'));
+
+    expect(savedRuns()[0]).toMatchObject({ status: 'failed', errorMessage: 'WhatsApp was disconnected during the check' });
+  });
+
+  it('keeps the run going while the job will be retried', async () => {
+    await jobFailed(checkJob(), new Error('Connection reset'));
+
+    expect(redisClient.set).not.toHaveBeenCalled();
+    expect(redisClient.del).not.toHaveBeenCalled();
+  });
+
+  it('leaves a run that another run replaced alone', async () => {
+    redisClient.get.mockResolvedValue(JSON.stringify({ ...RUN, runId: 'run-2' }));
+
+    await jobFailed(checkJob(Date.now()), new Error('Connection reset'));
+
+    expect(redisClient.set).not.toHaveBeenCalled();
+    expect(redisClient.del).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,267 @@
+import Bull from 'bull';
+import Message from '../../models/Message';
+import BulkMessage from '../../models/BulkMessage';
+import User from '../../models/User';
+import whatsappService from '../../services/whatsappService';
+import warmupService from '../../services/warmupService';
+import suppressionService from '../../services/suppressionService';
+import throttleService from '../../services/throttleService';
+import campaignTrackingService from '../../services/campaignTrackingService';
+import '../messages';
+
+// The queue keeps the processors the route registers so they can be run directly
+jest.mock('bull', () => jest.fn().mockImplementation(() => {
+  const processors: { [name: string]: (job: any) => Promise<any> } = {};
+  return {
+    processors,
+    process: jest.fn((name: string, concurrency: number, handler: any) => { processors[name] = handler; }),
+    on: jest.fn(),
+    add: jest.fn(),
+    getJob: jest.fn(),
+    removeJobs: jest.fn()
+  };
+}));
+
+jest.mock('../../config/redis', () => ({
+  __esModule: true,
+  default: { set: jest.fn().mockResolvedValue('OK'), del: jest.fn() }
+}));
+jest.mock('../../middleware/auth', () => ({ authenticate: jest.fn() }));
+
+jest.mock('../../models/Message', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+    aggregate: jest.fn()
+  }
+}));
+jest.mock('../../models/BulkMessage', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), findByIdAndUpdate: jest.fn(), updateOne: jest.fn() }
+}));
+jest.mock('../../models/User', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+
+jest.mock('../../services/aiService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/templateService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/segmentService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/campaignReportService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../services/mediaService', () => ({ __esModule: true, default: { getAttachment: jest.fn() } }));
+jest.mock('../../services/whatsappService', () => ({
+  __esModule: true,
+  default: { sendMessage: jest.fn(), getConnectedNumber: jest.fn(), isConnected: jest.fn() }
+}));
+jest.mock('../../services/warmupService', () => ({
+  __esModule: true,
+  default: { reserveSend: jest.fn(), releaseSend: jest.fn() }
+}));
+jest.mock('../../services/suppressionService', () => ({ __esModule: true, default: { isSuppressed: jest.fn() } }));
+jest.mock('../../services/throttleService', () => ({
+  __esModule: true,
+  default: { recordOutcome: jest.fn(), getMultiplier: jest.fn(() => 1) }
+}));
+jest.mock('../../services/campaignTrackingService', () => ({
+  __esModule: true,
+  FAILURE_CLASSES: [],
+  default: { incrementProgress: jest.fn() }
+}));
+
+const messageModel = Message as any;
+const bulkMessageModel = BulkMessage as any;
+const userModel = User as any;
+const whatsapp = whatsappService as any;
+const warmup = warmupService as any;
+const suppression = suppressionService as any;
+const throttle = throttleService as any;
+const tracking = campaignTrackingService as any;
+
+const queue = (Bull as unknown as jest.Mock).mock.results[0].value;
+const sendMessage = queue.processors['send-message'];
+
+const CAMPAIGN_ID = '652f0c0e8b3e4a0012345678';
+
+const sendJob = (attemptsMade = 0) => ({
+  data: {
+    messageId: 'message-1',
+    bulkMessageId: CAMPAIGN_ID,
+    userId: 'user-1',
+    contactPhone: '+919876543210',
+    message: 'Hello',
+    contactIndex: 0,
+    totalContacts: 1
+  },
+  attemptsMade,
+  opts: { attempts: 3 }
+});
+
+const givenCampaignStatus = (status: string) => {
+  bulkMessageModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ status }) });
+};
+
+// Status and update of each Message.findOneAndUpdate call, in order
+const messageUpdates = () => messageModel.findOneAndUpdate.mock.calls.map(([filter, update]: any[]) => ({ filter, update }));
+
+// Each send races a 30 second timeout timer that would otherwise keep Jest running
+beforeAll(() => {
+  jest.useFakeTimers();
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  givenCampaignStatus('processing');
+  // No sending window, so every job is inside it
+  userModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ settings: { sendingWindow: { enabled: false } } }) });
+  whatsapp.getConnectedNumber.mockReturnValue('919800000000');
+  warmup.reserveSend.mockResolvedValue({ allowed: true, cap: null, sentToday: 1 });
+  suppression.isSuppressed.mockResolvedValue(false);
+  messageModel.findOneAndUpdate.mockResolvedValue({ _id: 'message-1' });
+  messageModel.aggregate.mockResolvedValue([]);
+  messageModel.updateMany.mockResolvedValue({ modifiedCount: 0 });
+  bulkMessageModel.findByIdAndUpdate.mockResolvedValue({ progress: {} });
+  tracking.incrementProgress.mockResolvedValue({ progress: { pending: 1, sent: 0, failed: 0 } });
+  throttle.recordOutcome.mockResolvedValue(null);
+});
+
+describe('send-message worker: campaign status', () => {
+  it('puts the message on hold instead of sending when the campaign was paused', async () => {
+    givenCampaignStatus('paused');
+
+    expect(await sendMessage(sendJob(1))).toEqual({ skipped: true });
+
+    expect(messageModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'message-1', status: { $in: ['pending', 'retrying'] } },
+      { status: 'paused' }
+    );
+    expect(whatsapp.sendMessage).not.toHaveBeenCalled();
+    expect(warmup.reserveSend).not.toHaveBeenCalled();
+  });
+
+  it('cancels the message instead of sending when the campaign was cancelled', async () => {
+    givenCampaignStatus('cancelled');
+
+    expect(await sendMessage(sendJob(1))).toEqual({ skipped: true });
+
+    expect(messageModel.updateOne).toHaveBeenCalledWith(
+      { _id: 'message-1', status: { $in: ['pending', 'retrying'] } },
+      { status: 'cancelled', errorMessage: 'Campaign is no longer running' }
+    );
+    expect(whatsapp.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('claims pending messages and messages awaiting a retry', async () => {
+    whatsapp.sendMessage.mockResolvedValue({ success: true, messageId: 'wa-1' });
+
+    await sendMessage(sendJob());
+
+    expect(messageUpdates()[0]).toEqual({
+      filter: { _id: 'message-1', status: { $in: ['pending', 'retrying'] } },
+      update: { status: 'processing' }
+    });
+  });
+
+  it('skips a message that was put on hold meanwhile and gives back its warm-up allowance', async () => {
+    messageModel.findOneAndUpdate.mockResolvedValueOnce(null);
+
+    expect(await sendMessage(sendJob())).toEqual({ skipped: true });
+
+    expect(whatsapp.sendMessage).not.toHaveBeenCalled();
+    expect(warmup.releaseSend).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('send-message worker: failures and retries', () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    whatsapp.sendMessage.mockResolvedValue({ success: false, error: 'Session closed' });
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined); // The worker logs each failure
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('leaves a message awaiting its retry while Bull has attempts left', async () => {
+    await expect(sendMessage(sendJob(0))).rejects.toThrow('Session closed');
+
+    expect(messageUpdates()[1]).toEqual({
+      filter: { _id: 'message-1', status: { $in: ['pending', 'retrying', 'processing'] } },
+      update: { status: 'retrying', errorMessage: 'Session closed', $inc: { retryCount: 1 } }
+    });
+    expect(tracking.incrementProgress).not.toHaveBeenCalled();
+    // A failed send does not use up the number's daily allowance
+    expect(warmup.releaseSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails the message and counts it on the final attempt', async () => {
+    tracking.incrementProgress.mockResolvedValue({ progress: { pending: 0, sent: 4, failed: 1 } });
+
+    await expect(sendMessage(sendJob(2))).rejects.toThrow('Session closed');
+
+    expect(messageUpdates()[1].update).toMatchObject({ status: 'failed' });
+    expect(tracking.incrementProgress).toHaveBeenCalledWith(CAMPAIGN_ID, undefined, { 'progress.failed': 1, 'progress.pending': -1 });
+    expect(bulkMessageModel.updateOne).toHaveBeenCalledWith(
+      { _id: CAMPAIGN_ID, status: 'processing' },
+      expect.objectContaining({ status: 'completed' })
+    );
+  });
+
+  it('does not count a failure twice when the message was already settled', async () => {
+    messageModel.findOneAndUpdate
+      .mockResolvedValueOnce({ _id: 'message-1' })
+      .mockResolvedValueOnce(null);
+
+    await expect(sendMessage(sendJob(2))).rejects.toThrow('Session closed');
+
+    expect(tracking.incrementProgress).not.toHaveBeenCalled();
+  });
+
+  it('settles the message before a throttling pause puts the campaign on hold', async () => {
+    throttle.recordOutcome.mockResolvedValue({ action: 'pause', level: 0, failureRate: 60, reason: 'test' });
+
+    await expect(sendMessage(sendJob(0))).rejects.toThrow('Session closed');
+
+    // The retrying message is held with the rest, so its retry is skipped until the campaign resumes
+    expect(messageModel.updateMany).toHaveBeenCalledWith(
+      { bulkMessageId: CAMPAIGN_ID, status: { $in: ['pending', 'retrying'] } },
+      { status: 'paused' }
+    );
+    expect(messageModel.findOneAndUpdate.mock.invocationCallOrder[1])
+      .toBeLessThan(messageModel.updateMany.mock.invocationCallOrder[0]);
+    expect(throttle.recordOutcome).toHaveBeenCalledWith(CAMPAIGN_ID, { sendingWindow: { enabled: false } }, 'Session closed');
+  });
+
+  it('leaves the failing message to its own retry when throttling re-plans the campaign', async () => {
+    throttle.recordOutcome.mockResolvedValue({ action: 'slow_down', level: 1, failureRate: 30, reason: 'test' });
+    messageModel.find.mockReturnValue({
+      populate: () => ({ sort: jest.fn().mockResolvedValue([{ _id: 'message-2', contactId: { phone: '+919876543211' }, aiRewrittenMessage: 'Hi' }]) })
+    });
+
+    await expect(sendMessage(sendJob(0))).rejects.toThrow('Session closed');
+
+    // removeJobs() cannot drop the running job, so its Bull retry is still coming
+    expect(queue.removeJobs).toHaveBeenCalledWith(`${CAMPAIGN_ID}:*`);
+    expect(messageModel.updateMany).toHaveBeenCalledWith(
+      { bulkMessageId: CAMPAIGN_ID, status: 'retrying', awaitingWinner: { $ne: true }, _id: { $ne: 'message-1' } },
+      { status: 'pending' }
+    );
+    expect(queue.add).toHaveBeenCalledTimes(1);
+    expect(queue.add).toHaveBeenCalledWith('send-message', expect.objectContaining({ messageId: 'message-2' }), expect.anything());
+  });
+
+  it('records a successful send as sent', async () => {
+    whatsapp.sendMessage.mockResolvedValue({ success: true, messageId: 'wa-1' });
+
+    await sendMessage(sendJob(1));
+
+    expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith('message-1', expect.objectContaining({ status: 'sent', whatsappMessageId: 'wa-1' }));
+    expect(tracking.incrementProgress).toHaveBeenCalledWith(CAMPAIGN_ID, undefined, { 'progress.sent': 1, 'progress.pending': -1 });
+    expect(warmup.releaseSend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import ContactMerge, { IContactMerge } from '../models/ContactMerge';
+import { invalidateCache } from '../middleware/cache';
+import contactMergeService from '../services/contactMergeService';
+import phoneService from '../services/phoneService';
+
+const router = Router();
+
+const objectIdSchema = z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid contact ID');
+
+// Merge request validation schema
+const mergeSchema = z.object({
+  survivorId: objectIdSchema,
+  contactIds: z.array(objectIdSchema).min(1, 'Select at least one contact to merge').max(50),
+});
+
+const summarizeMerge = (merge: IContactMerge) => ({
+  mergeId: merge._id,
+  survivorId: merge.survivorId,
+  mergedContacts: merge.mergedContacts.map(contact => ({ _id: contact._id, name: contact.name, phone: contact.phone })),
+  status: merge.status,
+  canUndo: merge.status === 'merged' && merge.undoExpiresAt.getTime() > Date.now(),
+  undoExpiresAt: merge.undoExpiresAt,
+  undoneAt: merge.undoneAt,
+  createdAt: merge.createdAt
+});
+
+// @route   GET /api/contacts/duplicates
+// @desc    Find groups of contacts that look like the same person
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const groups = await contactMergeService.findDuplicates(user._id.toString(), phoneService.getDefaultCountry(user.settings));
+
+    res.json({
+      success: true,
+      data: {
+        groups: groups.slice(0, limit).map(group => ({
+          reasons: group.reasons,
+          suggestedSurvivorId: group.suggestedSurvivorId,
+          contacts: group.contacts.map(contact => ({
+            _id: contact._id,
+            name: contact.name,
+            phone: contact.phone,
+            email: contact.email,
+            category: contact.category,
+            tags: contact.tags,
+            whatsappStatus: contact.whatsappStatus,
+            createdAt: contact.createdAt
+          }))
+        })),
+        totalGroups: groups.length,
+        totalDuplicates: groups.reduce((sum, group) => sum + group.contacts.length - 1, 0)
+      }
+    });
+
+  } catch (error) {
+    console.error('Find duplicate contacts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contacts/duplicates/merge
+// @desc    Merge contacts into a survivor; can be undone for a limited time
+// @access  Private
+router.post('/merge', authenticate, invalidateCache(['cache:/api/contacts*']), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = mergeSchema.parse(req.body);
+
+    const result = await contactMergeService.merge(
+      user._id.toString(),
+      data.survivorId,
+      data.contactIds,
+      phoneService.getDefaultCountry(user.settings)
+    );
+
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Merged ${result.merge.mergedContactIds.length} contacts`,
+      data: summarizeMerge(result.merge)
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Merge contacts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/contacts/duplicates/merges
+// @desc    Get recent merges of the authenticated user
+// @access  Private
+router.get('/merges', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    const merges = await ContactMerge.find({ userId: user._id })
+      .select('-survivorBefore -repointed -removedStates')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.json({
+      success: true,
+      data: { merges: merges.map(summarizeMerge) }
+    });
+
+  } catch (error) {
+    console.error('Get contact merges error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contacts/duplicates/merges/:id/undo
+// @desc    Undo a merge within its undo window
+// @access  Private
+router.post('/merges/:id/undo', authenticate, invalidateCache(['cache:/api/contacts*']), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid merge ID'
+      });
+    }
+
+    const result = await contactMergeService.undo(user._id.toString(), id);
+    if (result.error) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Restored ${result.merge.mergedContactIds.length} contacts`,
+      data: summarizeMerge(result.merge)
+    });
+
+  } catch (error) {
+    console.error('Undo contact merge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
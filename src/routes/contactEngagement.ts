@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import Bull from 'bull';
+import Contact from '../models/Contact';
+import { clearCache } from '../middleware/cache';
+import engagementService, { ENGAGEMENT_BANDS } from '../services/engagementService';
+
+const router = Router();
+
+// Every night at 02:00 server time
+const NIGHTLY_CRON = '0 2 * * *';
+
+const engagementQueue = new Bull('contact engagement', {
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  },
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 3,
+    backoff: {
+      type: 'exponential' as const,
+      delay: 60000,
+    },
+    timeout: 30 * 60 * 1000,
+  },
+});
+
+const buildScoreJobId = (userId: string): string => `contact-engagement:${userId}`;
+
+// Queue a rescore of one user's contacts, unless one is already waiting or running
+export const queueEngagementScoring = async (userId: string): Promise<boolean> => {
+  const jobId = buildScoreJobId(userId);
+
+  const existing = await engagementQueue.getJob(jobId);
+  if (existing) {
+    if (!(await existing.isCompleted()) && !(await existing.isFailed())) {
+      return false;
+    }
+    await existing.remove();
+  }
+
+  await engagementQueue.add('score-contacts', { userId }, { jobId });
+  return true;
+};
+
+// Register the nightly rescore; adding the same repeatable job again is a no-op
+export const scheduleEngagementScoring = async (): Promise<void> => {
+  try {
+    await engagementQueue.add('score-all', {}, { repeat: { cron: NIGHTLY_CRON } });
+    console.log(`📊 Contact engagement scoring scheduled (${NIGHTLY_CRON})`);
+  } catch (error) {
+    console.error('❌ Error scheduling contact engagement scoring:', error);
+  }
+};
+
+// @route   GET /api/contacts/engagement
+// @desc    Contact counts by engagement band and when scores were last computed
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    const [bands, unscored, latest] = await Promise.all([
+      Contact.aggregate([
+        { $match: { userId: user._id, isActive: true, engagementScore: { $ne: null } } },
+        {
+          $bucket: {
+            groupBy: '$engagementScore',
+            boundaries: [...ENGAGEMENT_BANDS.map(band => band.min), 101],
+            output: { count: { $sum: 1 } }
+          }
+        }
+      ]),
+      Contact.countDocuments({ userId: user._id, isActive: true, engagementScore: null }),
+      Contact.findOne({ userId: user._id, engagementScoredAt: { $exists: true } })
+        .sort({ engagementScoredAt: -1 })
+        .select('engagementScoredAt')
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        bands: ENGAGEMENT_BANDS.map((band, i) => ({
+          name: band.name,
+          min: band.min,
+          max: i + 1 < ENGAGEMENT_BANDS.length ? ENGAGEMENT_BANDS[i + 1].min - 1 : 100,
+          count: bands.find(bucket => bucket._id === band.min)?.count || 0
+        })),
+        unscored,
+        lastScoredAt: latest?.engagementScoredAt
+      }
+    });
+
+  } catch (error) {
+    console.error('Get contact engagement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contacts/engagement/recompute
+// @desc    Rescore the user's contacts now instead of waiting for the nightly run
+// @access  Private
+router.post('/recompute', authenticate, async (req: Request, res: Response) => {
+  try {
+    const queued = await queueEngagementScoring(req.user!._id.toString());
+
+    res.status(202).json({
+      success: true,
+      message: queued ? 'Engagement scores are being recomputed' : 'Engagement scores are already being recomputed'
+    });
+
+  } catch (error) {
+    console.error('Recompute contact engagement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Nightly run: one scoring job per user with contacts, so one large list does not hold up the rest
+engagementQueue.process('score-all', async () => {
+  const userIds = await Contact.distinct('userId');
+  for (const userId of userIds) {
+    await queueEngagementScoring(userId.toString());
+  }
+  console.log(`📊 Queued engagement scoring for ${userIds.length} users`);
+  return { users: userIds.length };
+});
+
+engagementQueue.process('score-contacts', async (job) => {
+  const { userId } = job.data;
+
+  const scored = await engagementService.scoreUser(userId);
+  await clearCache('cache:/api/contacts*');
+
+  console.log(`📊 Scored engagement of ${scored} contacts for user ${userId}`);
+  return { scored };
+});
+
+export default router;
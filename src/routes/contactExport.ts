@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import contactExportService, { EXPORT_FORMATS } from '../services/contactExportService';
+
+const router = Router();
+
+// @route   GET /api/contacts/export
+// @desc    Download contacts as CSV or XLSX, with the contact list filters and a choice of columns
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const format = (req.query.format as string) || 'csv';
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    // Only the requesting user's own contacts, never another account's
+    const query: any = { userId: user._id, isActive: true };
+    const filterError = contactExportService.applyListFilters(query, req.query);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
+    }
+
+    const { columns, error } = await contactExportService.resolveColumns(user._id.toString(), req.query.columns);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error
+      });
+    }
+
+    const filename = `contacts-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+      const count = await contactExportService.writeXlsx(res, query, columns);
+      console.log(`📤 Exported ${count} contacts as XLSX for user ${user._id}`);
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    const count = await contactExportService.writeCsv(res, query, columns);
+    console.log(`📤 Exported ${count} contacts as CSV for user ${user._id}`);
+
+  } catch (error) {
+    console.error('Export contacts error:', error);
+    // Part of the file is already sent; cut the download off so it is not mistaken for a complete one
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
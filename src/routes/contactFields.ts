@@ -0,0 +1,213 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import ContactField, { FIELD_TYPES } from '../models/ContactField';
+import Contact from '../models/Contact';
+import Segment from '../models/Segment';
+import { invalidateCache } from '../middleware/cache';
+import { RESERVED_KEYS } from '../services/contactFieldService';
+
+const router = Router();
+
+const optionsSchema = z.array(z.string().trim().min(1).max(100)).max(100);
+
+// Custom field validation schema
+const fieldSchema = z.object({
+  key: z.string().trim()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Field keys may only contain letters, numbers and underscores')
+    .max(50)
+    .refine(key => !RESERVED_KEYS.includes(key), 'This key is reserved'),
+  label: z.string().trim().min(1, 'Field label is required').max(100),
+  type: z.enum(FIELD_TYPES),
+  options: optionsSchema.optional(),
+}).refine(field => field.type !== 'enum' || (field.options && field.options.length > 0), 'Enum fields need at least one option');
+
+// Keys and types are fixed once created, since contacts and segments already use them
+const fieldUpdateSchema = z.object({
+  label: z.string().trim().min(1).max(100).optional(),
+  options: optionsSchema.optional(),
+});
+
+// @route   GET /api/contact-fields
+// @desc    Get the custom contact fields of the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const fields = await ContactField.find({ userId: user._id }).sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: { fields }
+    });
+
+  } catch (error) {
+    console.error('Get contact fields error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contact-fields
+// @desc    Define a custom contact field
+// @access  Private
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = fieldSchema.parse(req.body);
+
+    const existing = await ContactField.findOne({ userId: user._id, key: data.key });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'A field with this key already exists'
+      });
+    }
+
+    const field = await ContactField.create({
+      userId: user._id,
+      key: data.key,
+      label: data.label,
+      type: data.type,
+      options: data.type === 'enum' ? Array.from(new Set(data.options)) : []
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Contact field created successfully',
+      data: { field }
+    });
+
+  } catch (error) {
+    console.error('Create contact field error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid field data',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   PUT /api/contact-fields/:id
+// @desc    Rename a custom field or change the options of an enum field
+// @access  Private
+router.put('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = fieldUpdateSchema.parse(req.body);
+
+    const field = await ContactField.findOne({ _id: req.params.id, userId: user._id });
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact field not found'
+      });
+    }
+
+    if (data.label !== undefined) field.label = data.label;
+    if (data.options !== undefined) {
+      if (field.type !== 'enum') {
+        return res.status(400).json({
+          success: false,
+          message: 'Only enum fields have options'
+        });
+      }
+      if (data.options.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Enum fields need at least one option'
+        });
+      }
+      // Contacts keep values of removed options until they are edited
+      field.options = Array.from(new Set(data.options));
+    }
+
+    await field.save();
+
+    res.json({
+      success: true,
+      message: 'Contact field updated successfully',
+      data: { field }
+    });
+
+  } catch (error) {
+    console.error('Update contact field error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid field data',
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/contact-fields/:id
+// @desc    Delete a custom field and its values on every contact
+// @access  Private
+router.delete('/:id', authenticate, invalidateCache(['cache:/api/contacts*']), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    const field = await ContactField.findOne({ _id: req.params.id, userId: user._id });
+    if (!field) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact field not found'
+      });
+    }
+
+    const usedBy = await Segment.find({ userId: user._id, 'filters.customFields.key': field.key }).select('name');
+    if (usedBy.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `This field is used by segments: ${usedBy.map(segment => segment.name).join(', ')}`
+      });
+    }
+
+    await field.deleteOne();
+    const result = await Contact.updateMany(
+      { userId: user._id, [`customFields.${field.key}`]: { $exists: true } },
+      { $unset: { [`customFields.${field.key}`]: 1 } }
+    );
+
+    res.json({
+      success: true,
+      message: 'Contact field deleted successfully',
+      data: { clearedContacts: result.modifiedCount }
+    });
+
+  } catch (error) {
+    console.error('Delete contact field error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
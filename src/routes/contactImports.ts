@@ -0,0 +1,593 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import multer from 'multer';
+import Bull from 'bull';
+import ContactImport, { DUPLICATE_POLICIES, IContactImport } from '../models/ContactImport';
+import User from '../models/User';
+import { clearCache } from '../middleware/cache';
+import contactFieldService from '../services/contactFieldService';
+import contactImportService, { CONTACT_CATEGORIES, IMPORT_CHUNK_SIZE, ImportOptions } from '../services/contactImportService';
+import whatsappService from '../services/whatsappService';
+import phoneService from '../services/phoneService';
+
+const router = Router();
+
+// Large files are written by a background job, one chunk at a time
+const contactImportQueue = new Bull('contact import', {
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  },
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 3,
+    backoff: {
+      type: 'fixed' as const,
+      delay: 60000,
+    },
+    timeout: 60 * 60 * 1000,
+  },
+  settings: {
+    stalledInterval: 30000,
+    maxStalledCount: 2, // A stalled job is picked up again and resumes from processedRows
+  },
+});
+
+// One job per import, so queueing it again (e.g. when recovering after a restart) does not duplicate it
+const buildImportJobId = (importId: string): string => `contact-import:${importId}`;
+
+export const queueContactImport = async (importId: string): Promise<void> => {
+  const jobId = buildImportJobId(importId);
+
+  const existing = await contactImportQueue.getJob(jobId);
+  if (existing) {
+    if (!(await existing.isCompleted()) && !(await existing.isFailed())) {
+      return;
+    }
+    await existing.remove();
+  }
+
+  await contactImportQueue.add('import-contacts', { importId }, { jobId });
+};
+
+// Re-queue imports that were waiting or running when the server stopped
+export const recoverContactImports = async (): Promise<void> => {
+  try {
+    const imports = await ContactImport.find({ status: { $in: ['queued', 'processing'] } }).select('_id');
+
+    for (const contactImport of imports) {
+      await queueContactImport(contactImport._id.toString());
+    }
+
+    console.log(`📥 Checked ${imports.length} unfinished contact imports`);
+  } catch (error) {
+    console.error('❌ Error recovering contact imports:', error);
+  }
+};
+
+const summarizeImport = (contactImport: IContactImport) => ({
+  importId: contactImport._id,
+  fileName: contactImport.fileName,
+  source: contactImport.source,
+  status: contactImport.status,
+  totalRows: contactImport.totalRows,
+  processedRows: contactImport.processedRows,
+  progress: contactImport.totalRows > 0 ? Math.round(contactImport.processedRows / contactImport.totalRows * 100) : 0,
+  result: contactImport.result,
+  errorMessage: contactImport.errorMessage
+});
+
+const emitImportProgress = (contactImport: IContactImport): void => {
+  whatsappService.emitToUser(contactImport.userId.toString(), 'contact-import-progress', summarizeImport(contactImport));
+};
+
+// Same limits as the one-step upload in contacts.ts
+const storage = multer.memoryStorage();
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+        file.mimetype === 'application/vnd.ms-excel' ||
+        file.mimetype === 'text/csv') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only Excel and CSV files are allowed'));
+    }
+  }
+});
+
+// Import commit validation schema
+const commitSchema = z.object({
+  mapping: z.record(z.string()),
+  duplicatePolicy: z.enum(DUPLICATE_POLICIES).default('skip'),
+  defaultCategory: z.enum(CONTACT_CATEGORIES as [string, ...string[]]).optional(),
+  defaultTags: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20).optional(),
+});
+
+// @route   POST /api/contacts/imports
+// @desc    Upload a contact file and preview its columns, suggested mapping and validation
+// @access  Private
+router.post('/', authenticate, upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const { headers, rows } = contactImportService.parseFile(req.file.buffer);
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'File is empty or invalid format'
+      });
+    }
+
+    const fields = await contactFieldService.getFields(user._id.toString());
+    const suggestedMapping = contactImportService.suggestMapping(headers, fields);
+
+    const contactImport = await ContactImport.create({
+      userId: user._id,
+      fileName: req.file.originalname,
+      headers,
+      totalRows: rows.length,
+      suggestedMapping
+    });
+    await contactImportService.saveRows(contactImport._id.toString(), rows);
+
+    // The preview can only be built once name and phone have a column
+    const mappingError = contactImportService.validateMapping(suggestedMapping, headers, fields);
+    const preview = mappingError
+      ? null
+      : await contactImportService.preview(user._id.toString(), rows, {
+        mapping: suggestedMapping,
+        duplicatePolicy: 'skip',
+        defaultCountry: phoneService.getDefaultCountry(user.settings)
+      }, fields);
+
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded. Review the mapping and commit the import.',
+      data: {
+        importId: contactImport._id,
+        fileName: contactImport.fileName,
+        headers,
+        totalRows: rows.length,
+        suggestedMapping,
+        mappingError,
+        preview
+      }
+    });
+
+  } catch (error) {
+    console.error('Upload contact import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during file upload'
+    });
+  }
+});
+
+// @route   POST /api/contacts/imports/:id/commit
+// @desc    Queue the uploaded rows for import with an explicit column mapping and duplicate policy
+// @access  Private
+router.post('/:id/commit', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import ID'
+      });
+    }
+
+    const options = commitSchema.parse(req.body) as ImportOptions;
+
+    const contactImport = await ContactImport.findOne({ _id: id, userId: user._id });
+    if (!contactImport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Import not found'
+      });
+    }
+
+    if (contactImport.status !== 'uploaded') {
+      return res.status(400).json({
+        success: false,
+        message: `Import is already ${contactImport.status}`
+      });
+    }
+
+    const fields = await contactFieldService.getFields(user._id.toString());
+    const mappingError = contactImportService.validateMapping(options.mapping, contactImport.headers, fields);
+    if (mappingError) {
+      return res.status(400).json({
+        success: false,
+        message: mappingError
+      });
+    }
+
+    if (!(await contactImportService.retainRows(id))) {
+      return res.status(410).json({
+        success: false,
+        message: 'Uploaded file has expired, please upload it again'
+      });
+    }
+
+    // Claim the import so a double submit cannot queue the rows twice
+    const queued = await ContactImport.findOneAndUpdate(
+      { _id: id, status: 'uploaded' },
+      {
+        status: 'queued',
+        mapping: options.mapping,
+        duplicatePolicy: options.duplicatePolicy,
+        defaultCategory: options.defaultCategory,
+        defaultTags: options.defaultTags || [],
+        queuedAt: new Date()
+      },
+      { new: true }
+    );
+    if (!queued) {
+      return res.status(409).json({
+        success: false,
+        message: 'Import is already being processed'
+      });
+    }
+
+    await queueContactImport(id);
+
+    res.status(202).json({
+      success: true,
+      message: 'Import queued. Follow its progress at /api/contacts/imports/' + id,
+      data: summarizeImport(queued)
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Commit contact import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contacts/imports/:id/cancel
+// @desc    Cancel an import; rows already written are kept
+// @access  Private
+router.post('/:id/cancel', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import ID'
+      });
+    }
+
+    // A running job notices the status change before its next chunk
+    const contactImport = await ContactImport.findOneAndUpdate(
+      { _id: id, userId: user._id, status: { $in: ['uploaded', 'queued', 'processing'] } },
+      { status: 'cancelled', cancelledAt: new Date() },
+      { new: true }
+    );
+
+    if (!contactImport) {
+      const existing = await ContactImport.exists({ _id: id, userId: user._id });
+      return res.status(existing ? 400 : 404).json({
+        success: false,
+        message: existing ? 'Only unfinished imports can be cancelled' : 'Import not found'
+      });
+    }
+
+    const job = await contactImportQueue.getJob(buildImportJobId(id));
+    if (job && (await job.isWaiting() || await job.isDelayed())) {
+      await job.remove();
+    }
+    await contactImportService.clearRows(id);
+    emitImportProgress(contactImport);
+
+    res.json({
+      success: true,
+      message: 'Import cancelled',
+      data: summarizeImport(contactImport)
+    });
+
+  } catch (error) {
+    console.error('Cancel contact import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/contacts/imports
+// @desc    Get the import history of the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { page = 1, limit = 20 } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const imports = await ContactImport.find({ userId: user._id })
+      .select('-rowErrors -suggestedMapping')
+      .populate('userId', 'name email')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limitNum);
+
+    const total = await ContactImport.countDocuments({ userId: user._id });
+
+    res.json({
+      success: true,
+      data: {
+        imports: imports.map(contactImport => ({
+          ...summarizeImport(contactImport),
+          importedBy: contactImport.userId,
+          mapping: contactImport.mapping,
+          duplicatePolicy: contactImport.duplicatePolicy,
+          createdAt: contactImport.createdAt,
+          completedAt: contactImport.completedAt,
+          cancelledAt: contactImport.cancelledAt
+        })),
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(total / limitNum),
+          totalImports: total,
+          hasNext: pageNum < Math.ceil(total / limitNum),
+          hasPrev: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get contact imports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/contacts/imports/:id
+// @desc    Get the status and progress of an import
+// @access  Private
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import ID'
+      });
+    }
+
+    const contactImport = await ContactImport.findOne({ _id: id, userId: user._id });
+    if (!contactImport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Import not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...summarizeImport(contactImport),
+        headers: contactImport.headers,
+        mapping: contactImport.mapping,
+        duplicatePolicy: contactImport.duplicatePolicy,
+        defaultCategory: contactImport.defaultCategory,
+        defaultTags: contactImport.defaultTags,
+        errors: contactImport.rowErrors.slice(0, 10), // Full list via /errors
+        queuedAt: contactImport.queuedAt,
+        startedAt: contactImport.startedAt,
+        completedAt: contactImport.completedAt,
+        cancelledAt: contactImport.cancelledAt,
+        createdAt: contactImport.createdAt
+      }
+    });
+
+  } catch (error) {
+    console.error('Get contact import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/contacts/imports/:id/errors
+// @desc    Download every rejected row of an import (format=csv|xlsx)
+// @access  Private
+router.get('/:id/errors', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { format = 'csv' } = req.query;
+
+    if (!['csv', 'xlsx'].includes(format as string)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Format must be one of: csv, xlsx'
+      });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid import ID'
+      });
+    }
+
+    const contactImport = await ContactImport.findOne({ _id: id, userId: user._id });
+    if (!contactImport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Import not found'
+      });
+    }
+
+    const filename = `contact-import-${contactImport._id}-errors`;
+
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+      return res.send(contactImportService.errorsToXlsx(contactImport));
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(contactImportService.errorsToCsv(contactImport));
+
+  } catch (error) {
+    console.error('Get contact import errors error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Write an import's rows in chunks. Progress is saved after every chunk, only
+ * if no other run has saved it first, so a job that is retried or picked up
+ * after a crash carries on where the last one stopped.
+ */
+contactImportQueue.process('import-contacts', 1, async (job) => {
+  const { importId } = job.data;
+
+  const contactImport = await ContactImport.findOneAndUpdate(
+    { _id: importId, status: { $in: ['queued', 'processing'] } },
+    { status: 'processing' },
+    { new: true }
+  );
+  if (!contactImport) {
+    console.log(`⏭️ Skipping contact import ${importId}, it is no longer queued`);
+    return { skipped: true };
+  }
+  if (!contactImport.startedAt) {
+    contactImport.startedAt = new Date();
+    await ContactImport.updateOne({ _id: importId }, { startedAt: contactImport.startedAt });
+  }
+
+  const userId = contactImport.userId.toString();
+
+  try {
+    const rows = await contactImportService.loadRows(importId);
+    if (!rows) {
+      const failed = await ContactImport.findOneAndUpdate(
+        { _id: importId, status: 'processing' },
+        { status: 'failed', errorMessage: 'Uploaded file has expired, please upload it again' },
+        { new: true }
+      );
+      if (failed) emitImportProgress(failed);
+      return { failed: true };
+    }
+
+    const fields = await contactFieldService.getFields(userId);
+    const user = await User.findById(userId).select('settings');
+    const options: ImportOptions = {
+      mapping: contactImport.mapping,
+      duplicatePolicy: contactImport.duplicatePolicy || 'skip',
+      defaultCategory: contactImport.defaultCategory,
+      defaultTags: contactImport.defaultTags,
+      defaultCountry: phoneService.getDefaultCountry(user?.settings)
+    };
+    // Rows are validated as a whole so duplicates are caught across chunks
+    const prepared = contactImportService.prepareRows(rows, options, fields);
+
+    for (let start = contactImport.processedRows; start < prepared.length; start += IMPORT_CHUNK_SIZE) {
+      const current = await ContactImport.findById(importId).select('status');
+      if (current?.status !== 'processing') {
+        console.log(`🛑 Contact import ${importId} stopped at row ${start}, it was ${current?.status}`);
+        await clearCache('cache:/api/contacts*');
+        return { cancelled: true };
+      }
+
+      const chunk = prepared.slice(start, start + IMPORT_CHUNK_SIZE);
+      const { result, rowErrors } = await contactImportService.importChunk(userId, chunk, options.duplicatePolicy);
+
+      const updated = await ContactImport.findOneAndUpdate(
+        { _id: importId, processedRows: start },
+        {
+          $set: { processedRows: start + chunk.length },
+          $inc: {
+            'result.created': result.created,
+            'result.updated': result.updated,
+            'result.skipped': result.skipped,
+            'result.failed': result.failed
+          },
+          $push: { rowErrors: { $each: rowErrors } }
+        },
+        { new: true }
+      );
+      if (!updated) {
+        console.log(`⏭️ Contact import ${importId} is being written by another job`);
+        return { skipped: true };
+      }
+
+      await job.progress(Math.round(updated.processedRows / prepared.length * 100));
+      emitImportProgress(updated);
+    }
+
+    const completed = await ContactImport.findOneAndUpdate(
+      { _id: importId, status: 'processing' },
+      { status: 'completed', completedAt: new Date() },
+      { new: true }
+    );
+    await contactImportService.clearRows(importId);
+    await clearCache('cache:/api/contacts*');
+
+    if (completed) {
+      emitImportProgress(completed);
+      console.log(`✅ Contact import ${importId} finished: ${completed.result.created} created, ${completed.result.updated} updated, ${completed.result.failed} rejected`);
+    }
+    return completed ? completed.result : { cancelled: true };
+
+  } catch (error) {
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+    if (isFinalAttempt) {
+      const failed = await ContactImport.findOneAndUpdate(
+        { _id: importId, status: 'processing' },
+        { status: 'failed', errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+        { new: true }
+      );
+      await clearCache('cache:/api/contacts*');
+      if (failed) emitImportProgress(failed);
+    }
+
+    console.error(`❌ Contact import ${importId} error:`, error);
+    throw error;
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import mongoose from 'mongoose';
+import Contact from '../models/Contact';
+import contactTimelineService from '../services/contactTimelineService';
+import phoneService from '../services/phoneService';
+
+// Mounted under /api/contacts/:id/timeline, so the contact ID comes from the parent path
+const router = Router({ mergeParams: true });
+
+// @route   GET /api/contacts/:id/timeline
+// @desc    Campaign messages, conversations, bookings and tag/category changes of one contact, newest first
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const pageNum = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid contact ID'
+      });
+    }
+
+    const contact = await Contact.findOne({ _id: id, userId: user._id });
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found'
+      });
+    }
+
+    const timeline = await contactTimelineService.getTimeline(
+      user._id.toString(),
+      contact,
+      phoneService.getDefaultCountry(user.settings),
+      pageNum,
+      limitNum
+    );
+    const totalPages = Math.ceil(timeline.total / limitNum);
+
+    res.json({
+      success: true,
+      data: {
+        contact: {
+          _id: contact._id,
+          name: contact.name,
+          phone: contact.phone,
+          email: contact.email,
+          category: contact.category,
+          tags: contact.tags,
+          isActive: contact.isActive
+        },
+        events: timeline.events,
+        pagination: {
+          currentPage: pageNum,
+          totalPages,
+          totalEvents: timeline.total,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get contact timeline error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,367 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Bull from 'bull';
+import Contact from '../models/Contact';
+import redis from '../config/redis';
+import { clearCache } from '../middleware/cache';
+import whatsappService from '../services/whatsappService';
+
+const router = Router();
+
+// Numbers are checked in small batches, one job per batch, so a run over a
+// large contact list never holds a worker for long
+const CHECK_BATCH_SIZE = 20;
+// Spacing between two lookups on the same WhatsApp session
+const CHECK_INTERVAL_MS = 1500;
+// How long the result of a finished run stays available
+const RUN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const verificationQueue = new Bull('whatsapp number check', {
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+  },
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 50,
+    attempts: 5, // Give a restoring WhatsApp session a few minutes to come back
+    backoff: {
+      type: 'fixed' as const,
+      delay: 60000,
+    },
+    timeout: 5 * 60 * 1000,
+  },
+  settings: {
+    stalledInterval: 30000,
+    maxStalledCount: 1,
+  },
+});
+
+interface VerificationRun {
+  runId: string;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  total: number;
+  checked: number;
+  valid: number;
+  invalid: number;
+  unknown: number;
+  startedAt: string;
+  finishedAt?: string;
+  errorMessage?: string;
+}
+
+interface CheckJobData {
+  userId: string;
+  runId: string;
+  contactIds?: string[];
+  checkedBefore?: string; // Recheck contacts last checked before this time
+  afterId?: string; // Cursor: the last contact of the previous batch
+}
+
+// Verification run request schema
+const runSchema = z.object({
+  contactIds: z.array(z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid contact ID')).min(1).optional(),
+  recheckAfterDays: z.number().min(0).max(365).optional(), // Also recheck numbers last checked this many days ago
+});
+
+const runKey = (userId: string): string => `whatsapp-check:${userId}`;
+// Held by the running check, so two requests can never start a run each
+const slotKey = (userId: string): string => `whatsapp-check-slot:${userId}`;
+
+const getRun = async (userId: string): Promise<VerificationRun | null> => {
+  const stored = await redis.get(runKey(userId));
+  return stored ? JSON.parse(stored) : null;
+};
+
+const saveRun = async (userId: string, run: VerificationRun): Promise<void> => {
+  await redis.set(runKey(userId), JSON.stringify(run), 'EX', RUN_TTL_SECONDS);
+  whatsappService.emitToUser(userId, 'whatsapp-check-progress', run);
+};
+
+// Mark a run failed, unless it already finished or another run replaced it
+const failRun = async (userId: string, runId: string, errorMessage: string): Promise<void> => {
+  const run = await getRun(userId);
+  if (run?.runId === runId && run.status === 'running') {
+    run.status = 'failed';
+    run.errorMessage = errorMessage;
+    run.finishedAt = new Date().toISOString();
+    await saveRun(userId, run);
+    await redis.del(slotKey(userId));
+  }
+  await clearCache('cache:/api/contacts*');
+};
+
+// Contacts a run still has to check, after the cursor
+const buildCheckQuery = (data: CheckJobData) => {
+  const idFilter: { $in?: string[]; $gt?: string } = {};
+  if (data.contactIds) idFilter.$in = data.contactIds;
+  if (data.afterId) idFilter.$gt = data.afterId;
+
+  return {
+    userId: data.userId,
+    isActive: true,
+    ...(Object.keys(idFilter).length > 0 && { _id: idFilter }),
+    $or: [
+      { whatsappCheckedAt: { $exists: false } },
+      ...(data.checkedBefore ? [{ whatsappCheckedAt: { $lt: new Date(data.checkedBefore) } }] : [])
+    ]
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// @route   POST /api/contacts/verification
+// @desc    Start checking which contact numbers are registered on WhatsApp
+// @access  Private
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  const userId = req.user!._id.toString();
+  let slotRunId: string | null = null; // Slot taken by this request and not yet handed to a queued run
+
+  try {
+    const data = runSchema.parse(req.body);
+
+    if (!whatsappService.isConnected(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'WhatsApp is not connected. Please connect first.'
+      });
+    }
+
+    const jobData: CheckJobData = {
+      userId,
+      runId: new mongoose.Types.ObjectId().toString(),
+      contactIds: data.contactIds,
+      checkedBefore: data.recheckAfterDays !== undefined
+        ? new Date(Date.now() - data.recheckAfterDays * 24 * 60 * 60 * 1000).toISOString()
+        : undefined
+    };
+
+    // Take the slot atomically; a concurrent request for the same user gets a 409
+    const claimed = await redis.set(slotKey(userId), jobData.runId, 'EX', RUN_TTL_SECONDS, 'NX');
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'A WhatsApp number check is already running',
+        data: await getRun(userId)
+      });
+    }
+    slotRunId = jobData.runId;
+
+    const total = await Contact.countDocuments(buildCheckQuery(jobData));
+    if (total === 0) {
+      await redis.del(slotKey(userId));
+      return res.status(400).json({
+        success: false,
+        message: 'No contacts need checking'
+      });
+    }
+
+    const run: VerificationRun = {
+      runId: jobData.runId,
+      status: 'running',
+      total,
+      checked: 0,
+      valid: 0,
+      invalid: 0,
+      unknown: 0,
+      startedAt: new Date().toISOString()
+    };
+    await saveRun(userId, run);
+    await verificationQueue.add('check-numbers', jobData);
+    slotRunId = null;
+
+    res.status(202).json({
+      success: true,
+      message: `Checking ${total} numbers on WhatsApp`,
+      data: run
+    });
+
+  } catch (error) {
+    // Give the slot back if the run never made it onto the queue
+    if (slotRunId) {
+      await failRun(userId, slotRunId, 'The WhatsApp number check could not be started');
+      await redis.del(slotKey(userId));
+    }
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Start WhatsApp number check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/contacts/verification
+// @desc    Get the latest number check run and contact counts by WhatsApp status
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    const counts = await Contact.aggregate([
+      { $match: { userId: user._id, isActive: true } },
+      { $group: { _id: { $ifNull: ['$whatsappStatus', 'unknown'] }, count: { $sum: 1 } } }
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        run: await getRun(user._id.toString()),
+        contacts: ['valid', 'invalid', 'unknown'].reduce((totals, status) => ({
+          ...totals,
+          [status]: counts.find(count => count._id === status)?.count || 0
+        }), {} as { [status: string]: number })
+      }
+    });
+
+  } catch (error) {
+    console.error('Get WhatsApp number check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/contacts/verification
+// @desc    Cancel the running number check; numbers already checked keep their status
+// @access  Private
+router.delete('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!._id.toString();
+
+    const run = await getRun(userId);
+    if (!run || run.status !== 'running') {
+      return res.status(400).json({
+        success: false,
+        message: 'No WhatsApp number check is running'
+      });
+    }
+
+    // The next batch sees the status change and stops
+    run.status = 'cancelled';
+    run.finishedAt = new Date().toISOString();
+    await saveRun(userId, run);
+    await redis.del(slotKey(userId));
+
+    res.json({
+      success: true,
+      message: 'WhatsApp number check cancelled',
+      data: run
+    });
+
+  } catch (error) {
+    console.error('Cancel WhatsApp number check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+/**
+ * Check one batch of numbers, then queue the next batch after the last
+ * contact checked. A number the lookup fails for is marked unknown so the run
+ * moves on; it is picked up again by a later recheck.
+ */
+verificationQueue.process('check-numbers', 3, async (job) => {
+  const data: CheckJobData = job.data;
+  const { userId, runId } = data;
+
+  const run = await getRun(userId);
+  if (!run || run.runId !== runId || run.status !== 'running') {
+    console.log(`⏭️ Skipping WhatsApp number check ${runId}, it is no longer running`);
+    return { skipped: true };
+  }
+
+  if (!whatsappService.isConnected(userId)) {
+    throw new Error(`WhatsApp is not connected for user ${userId}`);
+  }
+
+  const contacts = await Contact.find(buildCheckQuery(data))
+    .sort({ _id: 1 })
+    .limit(CHECK_BATCH_SIZE)
+    .select('_id phone');
+
+  let lastId: string | undefined;
+  for (const contact of contacts) {
+    // Pick up a cancel between lookups
+    const latest = await getRun(userId);
+    if (latest?.runId !== runId || latest.status !== 'running') {
+      await clearCache('cache:/api/contacts*');
+      return { cancelled: true };
+    }
+
+    let status: 'valid' | 'invalid' | 'unknown' = 'unknown';
+    try {
+      const result = await whatsappService.isRegisteredNumber(userId, contact.phone);
+      if (result.registered !== undefined) {
+        status = result.registered ? 'valid' : 'invalid';
+      }
+    } catch (error) {
+      console.error(`❌ WhatsApp number check failed for contact ${contact._id}:`, error);
+    }
+
+    await Contact.updateOne({ _id: contact._id }, { whatsappStatus: status, whatsappCheckedAt: new Date() });
+    lastId = contact._id.toString();
+
+    // Read the run again, a cancel may have come in during the lookup
+    const progress = await getRun(userId);
+    if (progress?.runId === runId) {
+      progress.checked += 1;
+      progress[status] += 1;
+      await saveRun(userId, progress);
+    }
+
+    await sleep(CHECK_INTERVAL_MS);
+  }
+
+  if (contacts.length === CHECK_BATCH_SIZE) {
+    await verificationQueue.add('check-numbers', { ...data, afterId: lastId }, { delay: CHECK_INTERVAL_MS });
+    return { checked: contacts.length };
+  }
+
+  const finished = await getRun(userId);
+  if (finished?.runId === runId && finished.status === 'running') {
+    finished.status = 'completed';
+    finished.finishedAt = new Date().toISOString();
+    await saveRun(userId, finished);
+    await redis.del(slotKey(userId));
+    console.log(`✅ WhatsApp number check ${runId} finished: ${finished.valid} valid, ${finished.invalid} invalid, ${finished.unknown} unknown`);
+  }
+  await clearCache('cache:/api/contacts*');
+
+  return { checked: contacts.length, completed: true };
+});
+
+// Bull fails a job on a thrown error, a timeout or a stall; once it gives up
+// for good the run has to end, or it would hold the slot until it expires
+verificationQueue.on('failed', async (job, error) => {
+  const { userId, runId }: CheckJobData = job.data;
+  console.error(`❌ WhatsApp number check ${runId} failed after ${job.attemptsMade} attempts:`, error.message);
+  // Bull only sets finishedOn once it stops retrying the job
+  if (!job.finishedOn) {
+    return;
+  }
+
+  try {
+    await failRun(userId, runId, whatsappService.isConnected(userId)
+      ? 'The WhatsApp number check stopped after repeated errors'
+      : 'WhatsApp was disconnected during the check');
+  } catch (failError) {
+    console.error(`Failed to end WhatsApp number check ${runId}:`, failError);
+  }
+});
+
+export default router;
@@ -1,13 +1,51 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth';
 import Contact from '../models/Contact';
+import ContactImport from '../models/ContactImport';
 import multer from 'multer';
-import XLSX from 'xlsx';
 import { invalidateCache } from '../middleware/cache';
 import mongoose from 'mongoose';
+import { z } from 'zod';
+import contactFieldService from '../services/contactFieldService';
+import contactBulkService, { BulkOperation } from '../services/contactBulkService';
+import contactExportService from '../services/contactExportService';
+import contactImportService, { CONTACT_CATEGORIES } from '../services/contactImportService';
+import phoneService from '../services/phoneService';
+import { queueContactImport } from './contactImports';
 
 const router = Router();
 
+// Fields the contact list can be sorted by
+const LIST_SORT_FIELDS = ['createdAt', 'name', 'engagementScore'];
+
+const tagListSchema = z.array(z.string().trim().toLowerCase().min(1)).min(1, 'Give at least one tag').max(50);
+
+// Bulk operation request schema
+const bulkSchema = z.object({
+  contactIds: z.array(z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid contact ID')).min(1).max(10000).optional(),
+  filter: z.object({
+    search: z.string().optional(),
+    category: z.union([z.string(), z.array(z.string())]).optional(),
+    tags: z.union([z.string(), z.array(z.string())]).optional(),
+    tagMatch: z.enum(['any', 'all']).optional(),
+    whatsappStatus: z.enum(['valid', 'invalid', 'unknown']).optional(),
+    status: z.enum(['active', 'inactive', 'all']).optional(),
+  }).optional(),
+  operations: z.array(z.discriminatedUnion('type', [
+    z.object({ type: z.literal('add_tags'), tags: tagListSchema }),
+    z.object({ type: z.literal('remove_tags'), tags: tagListSchema }),
+    z.object({ type: z.literal('set_category'), category: z.enum(CONTACT_CATEGORIES as [string, ...string[]]) }),
+    z.object({ type: z.literal('deactivate') }),
+    z.object({ type: z.literal('reactivate') }),
+    z.object({ type: z.literal('delete') }),
+  ])).min(1, 'Give at least one operation').max(10),
+})
+  .refine(data => !!data.contactIds !== !!data.filter, 'Give either contactIds or filter')
+  .refine(data => !data.operations.some(operation => operation.type === 'delete') || data.operations.length === 1,
+    'delete cannot be combined with other operations')
+  .refine(data => !(data.operations.some(operation => operation.type === 'deactivate') && data.operations.some(operation => operation.type === 'reactivate')),
+    'deactivate and reactivate cannot be combined');
+
 // Configure multer for file uploads
 const storage = multer.memoryStorage();
 const upload = multer({ 
@@ -106,13 +144,158 @@ router.post('/migrate', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// @route   POST /api/contacts/normalize-phones
+// @desc    Re-normalize stored phone numbers to E.164 (dryRun reports without saving)
+// @access  Private
+router.post('/normalize-phones', authenticate, invalidateCache(['cache:/api/contacts*']), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const dryRun = req.body.dryRun === true;
+    const defaultCountry = phoneService.getDefaultCountry(user.settings);
+
+    const contacts = await Contact.find({ userId: user._id })
+      .select('name phone phoneRaw phoneCountry isActive')
+      .lean();
+
+    const invalid: Array<{ contactId: any; name: string; phone: string; error: string }> = [];
+    const byNumber = new Map<string, Array<{ contact: typeof contacts[number]; country?: string }>>();
+
+    contacts.forEach(contact => {
+      const { phone, error } = phoneService.normalize(contact.phoneRaw || contact.phone, defaultCountry);
+      if (!phone) {
+        invalid.push({ contactId: contact._id, name: contact.name, phone: contact.phone, error });
+        return;
+      }
+      byNumber.set(phone.e164, [...(byNumber.get(phone.e164) || []), { contact, country: phone.country }]);
+    });
+
+    // Contacts that normalize to the same number are left as they are for the user to merge
+    const collisions: Array<{ phone: string; contacts: Array<{ contactId: any; name: string; phone: string; isActive: boolean }> }> = [];
+    const updates: any[] = [];
+
+    byNumber.forEach((matches, e164) => {
+      if (matches.length > 1) {
+        collisions.push({
+          phone: e164,
+          contacts: matches.map(({ contact }) => ({
+            contactId: contact._id,
+            name: contact.name,
+            phone: contact.phone,
+            isActive: contact.isActive
+          }))
+        });
+        return;
+      }
+
+      const [{ contact, country }] = matches;
+      if (contact.phone !== e164 || contact.phoneCountry !== country) {
+        updates.push({
+          updateOne: {
+            filter: { _id: contact._id },
+            update: {
+              $set: {
+                phone: e164,
+                phoneRaw: contact.phoneRaw || contact.phone,
+                ...(country && { phoneCountry: country })
+              }
+            }
+          }
+        });
+      }
+    });
+
+    if (!dryRun) {
+      for (let i = 0; i < updates.length; i += 500) {
+        await Contact.bulkWrite(updates.slice(i, i + 500), { ordered: false });
+      }
+    }
+
+    res.json({
+      success: true,
+      message: dryRun
+        ? `${updates.length} contacts would be normalized`
+        : `Normalized ${updates.length} contacts`,
+      data: {
+        dryRun,
+        defaultCountry,
+        totalContacts: contacts.length,
+        normalizedCount: updates.length,
+        unchangedCount: contacts.length - updates.length - invalid.length -
+          collisions.reduce((sum, collision) => sum + collision.contacts.length, 0),
+        invalidCount: invalid.length,
+        collisionCount: collisions.length,
+        invalid,
+        collisions
+      }
+    });
+
+  } catch (error) {
+    console.error('Normalize contact phones error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/contacts/bulk
+// @desc    Tag, recategorize, deactivate, reactivate or delete many contacts, picked by ID or by filter
+// @access  Private
+router.post('/bulk', authenticate, invalidateCache(['cache:/api/contacts*']), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = bulkSchema.parse(req.body);
+
+    const result = await contactBulkService.apply(
+      user._id.toString(),
+      { contactIds: data.contactIds, filter: data.filter },
+      data.operations as BulkOperation[]
+    );
+
+    if (result.error) {
+      return res.status(400).json({
+        success: false,
+        message: result.error
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Applied ${data.operations.length} operation${data.operations.length === 1 ? '' : 's'} to ${result.matched} contacts`,
+      data: result
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      });
+    }
+
+    console.error('Bulk contact operation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 // @route   GET /api/contacts
 // @desc    Get all contacts for the authenticated user
 // @access  Private
 router.get('/', authenticate, async (req: Request, res: Response) => {
   try {
     const user = req.user!;
-    const { page = 1, limit = 50, search = '' } = req.query;
+    const { page = 1, limit = 50, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
+
+    if (!LIST_SORT_FIELDS.includes(sortBy as string) || !['asc', 'desc'].includes(sortOrder as string)) {
+      return res.status(400).json({
+        success: false,
+        message: `sortBy must be one of: ${LIST_SORT_FIELDS.join(', ')}; sortOrder must be asc or desc`
+      });
+    }
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
@@ -126,22 +309,18 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
       ]
     };
 
-    if (search) {
-      searchQuery.$and = [
-        searchQuery,
-        {
-          $or: [
-            { name: { $regex: search, $options: 'i' } },
-            { phone: { $regex: search, $options: 'i' } },
-            { email: { $regex: search, $options: 'i' } }
-          ]
-        }
-      ];
+    // Search, category, tag and WhatsApp status filters, shared with the export
+    const filterError = contactExportService.applyListFilters(searchQuery, req.query);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
     }
 
-
+    const direction = sortOrder === 'asc' ? 1 : -1;
     const contacts = await Contact.find(searchQuery)
-      .sort({ createdAt: -1 })
+      .sort({ [sortBy as string]: direction, ...(sortBy !== 'createdAt' && { createdAt: -1 }) })
       .skip(skip)
       .limit(limitNum);
 
@@ -176,13 +355,30 @@ router.post('/', authenticate, invalidateCache(['cache:/api/contacts*']), async
     const user = req.user!;
     const { name, phone, email } = req.body;
 
-    // Normalize phone number
-    const normalizedPhone = phone.replace(/\D/g, '');
+    const fields = await contactFieldService.getFields(user._id.toString());
+    const customFields = contactFieldService.validateValues(fields, req.body.customFields);
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: customFields.errors[0],
+        errors: customFields.errors
+      });
+    }
+
+    // Normalize phone number to E.164, reading national numbers as the user's default country
+    const normalized = phoneService.normalize(phone, phoneService.getDefaultCountry(user.settings));
+    if (normalized.error) {
+      return res.status(400).json({
+        success: false,
+        message: normalized.error
+      });
+    }
+    const normalizedPhone = normalized.phone;
     
     // Check if contact already exists (only active contacts)
     const existingContact = await Contact.findOne({ 
       userId: user._id, 
-      phone: normalizedPhone,
+      phone: { $in: phoneService.legacyForms(normalizedPhone) },
       isActive: true
     });
 
@@ -196,15 +392,19 @@ router.post('/', authenticate, invalidateCache(['cache:/api/contacts*']), async
     // Also check for any inactive contacts with the same phone (for recovery)
     const inactiveContact = await Contact.findOne({ 
       userId: user._id, 
-      phone: normalizedPhone,
+      phone: { $in: phoneService.legacyForms(normalizedPhone) },
       isActive: false
     });
 
     if (inactiveContact) {
       // Reactivate the existing contact instead of creating a new one
       inactiveContact.name = name;
+      inactiveContact.phone = normalizedPhone.e164;
+      inactiveContact.phoneRaw = phone.toString().trim();
+      inactiveContact.phoneCountry = normalizedPhone.country;
       inactiveContact.email = email || undefined;
       inactiveContact.isActive = true;
+      contactFieldService.applyValues(inactiveContact, customFields.values);
       await inactiveContact.save();
 
       return res.status(200).json({
@@ -217,9 +417,12 @@ router.post('/', authenticate, invalidateCache(['cache:/api/contacts*']), async
     const contact = new Contact({
       userId: user._id,
       name,
-      phone: normalizedPhone, // Use normalized phone
+      phone: normalizedPhone.e164, // Use normalized phone
+      phoneRaw: phone.toString().trim(),
+      phoneCountry: normalizedPhone.country,
       email: email || undefined
     });
+    contactFieldService.applyValues(contact, customFields.values);
 
     await contact.save();
 
@@ -264,12 +467,31 @@ router.put('/:id', authenticate, async (req: Request, res: Response) => {
       });
     }
 
+    // Only the custom fields sent are changed; null clears one
+    const fields = await contactFieldService.getFields(user._id.toString());
+    const customFields = contactFieldService.validateValues(fields, req.body.customFields);
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: customFields.errors[0],
+        errors: customFields.errors
+      });
+    }
+
+    const normalized = phoneService.normalize(phone, phoneService.getDefaultCountry(user.settings));
+    if (normalized.error) {
+      return res.status(400).json({
+        success: false,
+        message: normalized.error
+      });
+    }
+    const newPhone = normalized.phone;
+
     // Check if phone number is being changed and if it conflicts with another contact
-    const newPhone = phone.replace(/\D/g, '');
-    if (contact.phone !== newPhone) {
+    if (contact.phone !== newPhone.e164) {
       const existingContact = await Contact.findOne({ 
         userId: user._id, 
-        phone: newPhone,
+        phone: { $in: phoneService.legacyForms(newPhone) },
         _id: { $ne: id }
       });
 
@@ -281,10 +503,19 @@ router.put('/:id', authenticate, async (req: Request, res: Response) => {
       }
     }
 
+    // A new number has not been checked on WhatsApp yet
+    if (contact.phone !== newPhone.e164) {
+      contact.whatsappStatus = 'unknown';
+      contact.whatsappCheckedAt = undefined;
+    }
+
     // Update contact
     contact.name = name;
-    contact.phone = newPhone;
+    contact.phone = newPhone.e164;
+    contact.phoneRaw = phone.toString().trim();
+    contact.phoneCountry = newPhone.country;
     contact.email = email || undefined;
+    contactFieldService.applyValues(contact, customFields.values);
 
     await contact.save();
 
@@ -339,7 +570,7 @@ router.delete('/:id', authenticate, async (req: Request, res: Response) => {
 });
 
 // @route   POST /api/contacts/upload
-// @desc    Upload contacts from Excel/CSV file
+// @desc    Upload contacts from Excel/CSV file; rows are imported by a background job
 // @access  Private
 router.post('/upload', authenticate, upload.single('file'), async (req: Request, res: Response) => {
   try {
@@ -353,92 +584,75 @@ router.post('/upload', authenticate, upload.single('file'), async (req: Request,
     }
 
     // Parse the uploaded file
-    const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const data = XLSX.utils.sheet_to_json(worksheet);
+    const { headers, rows } = contactImportService.parseFile(req.file.buffer);
 
-    if (data.length === 0) {
+    if (rows.length === 0) {
       return res.status(400).json({
         success: false,
         message: 'File is empty or invalid format'
       });
     }
 
-    const contacts = [];
-    const errors = [];
-    let successCount = 0;
-
-    for (let i = 0; i < data.length; i++) {
-      const row = data[i] as any;
-      
-      try {
-        // Extract data from row (handle different column names)
-        const name = row.Name || row.name || row.NAME || row['Contact Name'] || '';
-        const phone = row.Phone || row.phone || row.PHONE || row['Phone Number'] || row.Number || '';
-        const email = row.Email || row.email || row.EMAIL || '';
-
-        if (!name || !phone) {
-          errors.push({
-            row: i + 1,
-            error: 'Name and phone number are required'
-          });
-          continue;
-        }
-
-        // Clean phone number
-        const cleanPhone = phone.toString().replace(/\D/g, '');
-        
-        if (cleanPhone.length < 10) {
-          errors.push({
-            row: i + 1,
-            error: 'Invalid phone number format'
-          });
-          continue;
-        }
-
-        // Check if contact already exists
-        const existingContact = await Contact.findOne({ 
-          userId: user._id, 
-          phone: cleanPhone 
-        });
-
-        if (existingContact) {
-          errors.push({
-            row: i + 1,
-            error: 'Contact already exists'
-          });
-          continue;
-        }
-
-        const contact = new Contact({
-          userId: user._id,
-          name: name.toString().trim(),
-          phone: cleanPhone,
-          email: email ? email.toString().trim() : undefined
-        });
+    // Columns named after a custom field's key or label fill that field; fieldMapping
+    // ({ "Column header": "fieldKey" }) maps any other columns
+    const fields = await contactFieldService.getFields(user._id.toString());
+    let fieldMapping: { [header: string]: string } = {};
+    try {
+      fieldMapping = req.body.fieldMapping ? JSON.parse(req.body.fieldMapping) : {};
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'fieldMapping must be a JSON object of column header to field key'
+      });
+    }
 
-        await contact.save();
-        contacts.push(contact);
-        successCount++;
+    const mapping = contactImportService.suggestMapping(headers, fields);
+    Object.entries(fieldMapping).forEach(([header, key]) => {
+      if (!(header in mapping)) return;
+      Object.keys(mapping).forEach(h => {
+        if (mapping[h] === `custom:${key}`) mapping[h] = 'ignore';
+      });
+      mapping[header] = `custom:${key}`;
+    });
 
-      } catch (error) {
-        errors.push({
-          row: i + 1,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+    const mappingError = contactImportService.validateMapping(mapping, headers, fields);
+    if (mappingError) {
+      return res.status(400).json({
+        success: false,
+        message: mappingError
+      });
     }
 
-    res.json({
+    const contactImport = new ContactImport({
+      userId: user._id,
+      fileName: req.file.originalname,
+      source: 'upload',
+      status: 'queued',
+      headers,
+      totalRows: rows.length,
+      suggestedMapping: mapping,
+      mapping,
+      duplicatePolicy: 'skip',
+      queuedAt: new Date()
+    });
+    await contactImportService.saveRows(contactImport._id.toString(), rows);
+    await contactImportService.retainRows(contactImport._id.toString());
+    await contactImport.save();
+    await queueContactImport(contactImport._id.toString());
+
+    const mappedFields: { [key: string]: string } = {};
+    Object.entries(mapping).forEach(([header, target]) => {
+      if (target.startsWith('custom:')) mappedFields[target.slice('custom:'.length)] = header;
+    });
+
+    res.status(202).json({
       success: true,
-      message: `Upload completed. ${successCount} contacts added successfully.`,
+      message: `Upload received. ${rows.length} rows are being imported in the background.`,
       data: {
-        totalProcessed: data.length,
-        successCount,
-        errorCount: errors.length,
-        contacts: contacts.slice(0, 10), // Return first 10 for preview
-        errors: errors.slice(0, 10) // Return first 10 errors
+        importId: contactImport._id,
+        status: contactImport.status,
+        totalProcessed: rows.length,
+        mappedFields
       }
     });
 
@@ -0,0 +1,153 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import MediaAsset from '../models/MediaAsset';
+import BulkMessage from '../models/BulkMessage';
+import mediaService, { MAX_UPLOAD_SIZE } from '../services/mediaService';
+import multer from 'multer';
+
+const router = Router();
+
+// Configure multer for media uploads; per-type size limits are checked by the media service
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE,
+  },
+  fileFilter: (req, file, cb) => {
+    if (mediaService.isSupportedType(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only images, PDF/Office documents, MP4/3GP video and audio files are allowed'));
+    }
+  }
+});
+
+// Turn multer errors into a 400 instead of falling through to the global error handler
+const uploadFile = (req: Request, res: Response, next: any) => {
+  upload.single('file')(req, res, (err: any) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        message: err.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : err.message
+      });
+    }
+    next();
+  });
+};
+
+// @route   POST /api/media
+// @desc    Upload a media attachment for use in messages
+// @access  Private
+router.post('/', authenticate, uploadFile, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const { sendAsVoice } = req.body;
+    let asset;
+    try {
+      asset = await mediaService.saveUpload(
+        user._id.toString(),
+        req.file,
+        sendAsVoice === undefined ? undefined : sendAsVoice === true || sendAsVoice === 'true'
+      );
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Invalid media file'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Media uploaded successfully',
+      data: { media: asset }
+    });
+
+  } catch (error) {
+    console.error('Upload media error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during media upload'
+    });
+  }
+});
+
+// @route   GET /api/media
+// @desc    Get uploaded media for the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { kind } = req.query;
+
+    const query: any = { userId: user._id };
+    if (kind) {
+      query.kind = kind;
+    }
+
+    const media = await MediaAsset.find(query).sort({ createdAt: -1 }).limit(100);
+
+    res.json({
+      success: true,
+      data: { media }
+    });
+
+  } catch (error) {
+    console.error('Get media error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/media/:id
+// @desc    Delete a media attachment that no active campaign uses
+// @access  Private
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const asset = await MediaAsset.findOne({ _id: req.params.id, userId: user._id });
+
+    if (!asset) {
+      return res.status(404).json({
+        success: false,
+        message: 'Media not found'
+      });
+    }
+
+    const inUse = await BulkMessage.exists({
+      mediaId: asset._id,
+      status: { $in: ['pending', 'scheduled', 'processing', 'paused'] }
+    });
+    if (inUse) {
+      return res.status(400).json({
+        success: false,
+        message: 'This media is used by a campaign that has not finished yet'
+      });
+    }
+
+    await mediaService.deleteAsset(asset);
+
+    res.json({
+      success: true,
+      message: 'Media deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete media error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
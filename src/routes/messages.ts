@@ -1,11 +1,28 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth';
-import Contact from '../models/Contact';
+import Contact, { IContact } from '../models/Contact';
 import Message from '../models/Message';
 import BulkMessage from '../models/BulkMessage';
+import MediaAsset from '../models/MediaAsset';
+import MessageTemplate from '../models/MessageTemplate';
+import Segment from '../models/Segment';
 import aiService from '../services/aiService';
 import whatsappService from '../services/whatsappService';
+import schedulingService from '../services/schedulingService';
+import campaignReportService from '../services/campaignReportService';
+import campaignTrackingService, { FAILURE_CLASSES } from '../services/campaignTrackingService';
+import suppressionService from '../services/suppressionService';
+import phoneService from '../services/phoneService';
+import mediaService from '../services/mediaService';
+import templateService from '../services/templateService';
+import segmentService from '../services/segmentService';
+import abTestService, { AbTestConfig, VARIANT_KEYS } from '../services/abTestService';
+import warmupService from '../services/warmupService';
+import throttleService, { ThrottleDecision } from '../services/throttleService';
+import User from '../models/User';
+import redis from '../config/redis';
 import Bull from 'bull';
+import mongoose from 'mongoose';
 const router = Router();
 
 // Create Bull queue for message processing
@@ -31,6 +48,342 @@ const messageQueue = new Bull('message processing', {
   },
 });
 
+// Queue job IDs are prefixed with the campaign ID so every job belonging to a
+// campaign can be removed with a single removeJobs() pattern
+const buildJobId = (bulkMessageId: string, messageId: string): string =>
+  `${bulkMessageId}:${messageId}:${Date.now()}`;
+
+const removeCampaignJobs = async (bulkMessageId: string): Promise<void> => {
+  await messageQueue.removeJobs(`${bulkMessageId}:*`);
+};
+
+// Planned send time of each message, spaced out by the user's message delay and
+// kept inside their sending window
+const planCampaignSendTimes = (count: number, userSettings: any, startAt: Date): Date[] => {
+  const messageDelaySeconds = userSettings.messageDelay || 60; // User's delay in seconds
+
+  return schedulingService.planSendTimes(
+    startAt,
+    count,
+    messageDelaySeconds * 1000,
+    schedulingService.getSendingWindow(userSettings),
+    schedulingService.getUserTimeZone(userSettings)
+  );
+};
+
+// Add send jobs for a campaign at their planned send times, starting now unless
+// startAt says otherwise. Returns the projected completion time.
+const enqueueCampaignMessages = async (
+  bulkMessageId: string,
+  userId: string,
+  jobs: Array<{ messageId: string; contactPhone: string; message: string }>,
+  userSettings: any,
+  startAt?: Date
+): Promise<Date | null> => {
+  const maxRetries = userSettings.maxRetries || 3;
+
+  // Jobs only carry the attachment's ID; the worker loads the file itself
+  const campaign = await BulkMessage.findById(bulkMessageId).select('mediaId throttle');
+  const mediaId = campaign?.mediaId ? campaign.mediaId.toString() : undefined;
+
+  // A throttled campaign spaces its messages further apart
+  const messageDelaySeconds = (userSettings.messageDelay || 60) * throttleService.getMultiplier(campaign?.throttle?.level);
+  const plannedSettings = { ...userSettings, messageDelay: messageDelaySeconds };
+
+  const now = Date.now();
+  const sendTimes = planCampaignSendTimes(jobs.length, plannedSettings, new Date(Math.max(now, startAt ? startAt.getTime() : 0)));
+
+  console.log(`📅 Scheduling ${jobs.length} messages with ${messageDelaySeconds}s delay between each`);
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    const delay = Math.max(0, sendTimes[i].getTime() - now); // Milliseconds until the planned send time
+
+    console.log(`📤 Message ${i + 1}/${jobs.length}: ${job.contactPhone} - Delay: ${delay}ms (${Math.round(delay / 1000)}s)`);
+
+    await messageQueue.add('send-message', {
+      messageId: job.messageId,
+      bulkMessageId,
+      userId,
+      contactPhone: job.contactPhone,
+      message: job.message,
+      mediaId,
+      contactIndex: i,
+      totalContacts: jobs.length
+    }, {
+      jobId: buildJobId(bulkMessageId, job.messageId),
+      delay: delay, // Calculated delay for each message
+      attempts: maxRetries, // Use user-configured retry attempts
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      }
+    });
+  }
+
+  const projectedCompletionAt = sendTimes.length > 0 ? sendTimes[sendTimes.length - 1] : null;
+  await BulkMessage.findByIdAndUpdate(bulkMessageId, { projectedCompletionAt });
+
+  return projectedCompletionAt;
+};
+
+/**
+ * Re-plan a campaign: drop its queued jobs and re-enqueue the unsent messages
+ * from the next open slot (or from resumeAt, e.g. the next day once the
+ * number's warm-up cap is reached). Used when a job fires outside the sending
+ * window and when the campaign's pace changes. A short Redis lock stops
+ * concurrent jobs of the same campaign doing it twice. A failing job passes
+ * its own message as retryingMessageId: removeJobs() cannot drop the running
+ * job, so that message keeps its Bull retry instead of being queued again.
+ */
+const deferCampaign = async (
+  bulkMessageId: string,
+  userId: string,
+  userSettings: any,
+  reason: string,
+  resumeAt?: Date,
+  retryingMessageId?: string
+): Promise<void> => {
+  const lockKey = `campaign-defer:${bulkMessageId}`;
+  const acquired = await redis.set(lockKey, '1', 'EX', 60, 'NX');
+  if (!acquired) {
+    return;
+  }
+
+  try {
+    await removeCampaignJobs(bulkMessageId);
+
+    // Messages waiting for a retry lost their retry job with the rest, so they are re-planned too
+    await Message.updateMany(
+      {
+        bulkMessageId,
+        status: 'retrying',
+        awaitingWinner: { $ne: true },
+        ...(retryingMessageId && { _id: { $ne: retryingMessageId } })
+      },
+      { status: 'pending' }
+    );
+
+    const pendingMessages = await Message.find({
+      bulkMessageId,
+      status: 'pending',
+      awaitingWinner: { $ne: true }
+    })
+    .populate('contactId', 'phone')
+    .sort({ createdAt: 1 });
+
+    const projectedCompletionAt = await enqueueCampaignMessages(
+      bulkMessageId,
+      userId,
+      pendingMessages.map(msg => ({
+        messageId: msg._id.toString(),
+        contactPhone: (msg.contactId as any)?.phone,
+        message: msg.aiRewrittenMessage
+      })),
+      userSettings,
+      resumeAt
+    );
+
+    await recalculateProgress(bulkMessageId);
+
+    console.log(`🌙 Campaign ${bulkMessageId} ${reason}, ${pendingMessages.length} messages re-planned (projected finish: ${projectedCompletionAt ? projectedCompletionAt.toISOString() : 'n/a'})`);
+  } finally {
+    await redis.del(lockKey);
+  }
+};
+
+// Drop a campaign's queued jobs and put its unsent messages, including those
+// waiting for a retry, on hold until it is resumed
+const holdCampaignMessages = async (bulkMessageId: string) => {
+  await removeCampaignJobs(bulkMessageId);
+  const result = await Message.updateMany(
+    { bulkMessageId, status: { $in: ['pending', 'retrying'] } },
+    { status: 'paused' }
+  );
+
+  const progress = await recalculateProgress(bulkMessageId);
+  return { heldMessages: result.modifiedCount, progress };
+};
+
+// Carry out a throttling decision; the campaign already records it (and, for a pause, its new status)
+const applyThrottleDecision = async (
+  bulkMessageId: string,
+  userId: string,
+  userSettings: any,
+  decision: ThrottleDecision,
+  retryingMessageId?: string
+): Promise<void> => {
+  if (decision.action === 'pause') {
+    const { heldMessages } = await holdCampaignMessages(bulkMessageId);
+    console.log(`⏸️ Campaign ${bulkMessageId} paused by throttling (${decision.reason}), ${heldMessages} messages on hold`);
+    return;
+  }
+
+  const multiplier = throttleService.getMultiplier(decision.level);
+  const direction = decision.action === 'slow_down' ? 'slowed down' : 'sped up';
+  await deferCampaign(
+    bulkMessageId,
+    userId,
+    userSettings,
+    `${direction} to ${multiplier}x its message delay (${decision.reason})`,
+    undefined,
+    retryingMessageId
+  );
+};
+
+// Start jobs get a deterministic ID per schedule time, so adding one again
+// (e.g. when recovering after a restart) does not duplicate it
+const buildStartJobId = (bulkMessageId: string, scheduledAt: Date): string =>
+  `${bulkMessageId}:start:${scheduledAt.getTime()}`;
+
+// Add the delayed job that releases a scheduled campaign at its start time
+const scheduleCampaignStart = async (bulkMessageId: string, scheduledAt: Date): Promise<void> => {
+  const jobId = buildStartJobId(bulkMessageId, scheduledAt);
+
+  const existing = await messageQueue.getJob(jobId);
+  if (existing) {
+    if (!(await existing.isCompleted()) && !(await existing.isFailed())) {
+      return;
+    }
+    await existing.remove();
+  }
+
+  await messageQueue.add('start-campaign', { bulkMessageId }, {
+    jobId,
+    delay: Math.max(0, scheduledAt.getTime() - Date.now()),
+    attempts: 5, // Give a restoring WhatsApp session a few minutes to come back
+    backoff: {
+      type: 'fixed',
+      delay: 60000,
+    },
+    timeout: 10 * 60 * 1000 // Enqueueing a large campaign can take a while
+  });
+};
+
+// Re-create start jobs for scheduled campaigns, in case Redis lost them
+export const recoverScheduledCampaigns = async (): Promise<void> => {
+  try {
+    const scheduledCampaigns = await BulkMessage.find({ status: 'scheduled' }).select('_id scheduledAt');
+
+    for (const campaign of scheduledCampaigns) {
+      if (campaign.scheduledAt) {
+        await scheduleCampaignStart(campaign._id.toString(), campaign.scheduledAt);
+      }
+    }
+
+    console.log(`📅 Checked ${scheduledCampaigns.length} scheduled campaigns`);
+  } catch (error) {
+    console.error('❌ Error recovering scheduled campaigns:', error);
+  }
+};
+
+// Winner jobs are not prefixed with the campaign ID, so pausing or re-planning
+// the campaign's send jobs leaves the pending decision in place
+const buildWinnerJobId = (bulkMessageId: string, decideAt: Date): string =>
+  `ab-winner:${bulkMessageId}:${decideAt.getTime()}`;
+
+// Queue the A/B decision for once the test cohort has been sent and the wait is over
+const scheduleWinnerDecision = async (bulkMessageId: string, lastTestSendAt: Date | null, waitHours: number): Promise<void> => {
+  const decideAt = new Date(Math.max(Date.now(), lastTestSendAt ? lastTestSendAt.getTime() : 0) + waitHours * 60 * 60 * 1000);
+
+  await messageQueue.add('decide-ab-winner', { bulkMessageId }, {
+    jobId: buildWinnerJobId(bulkMessageId, decideAt),
+    delay: Math.max(0, decideAt.getTime() - Date.now()),
+    attempts: 3,
+    backoff: {
+      type: 'fixed',
+      delay: 60000,
+    },
+    timeout: 10 * 60 * 1000 // Personalizing the remainder can take a while
+  });
+
+  console.log(`🧪 A/B winner for campaign ${bulkMessageId} will be picked at ${decideAt.toISOString()}`);
+};
+
+// How many times the failed messages of one campaign can be re-sent
+const MAX_RETRY_ROUNDS = 5;
+
+// Campaign counters for a set of message status counts
+const tallyStatuses = (rows: Array<{ status: string; count: number; replied: number; optedOut: number }>) => {
+  const byStatus: { [status: string]: number } = {};
+  let replied = 0;
+  let optedOut = 0;
+  rows.forEach(row => {
+    byStatus[row.status] = (byStatus[row.status] || 0) + row.count;
+    replied += row.replied;
+    optedOut += row.optedOut;
+  });
+
+  return {
+    total: rows.reduce((sum, row) => sum + row.count, 0),
+    sent: (byStatus.sent || 0) + (byStatus.delivered || 0) + (byStatus.read || 0),
+    failed: byStatus.failed || 0,
+    cancelled: byStatus.cancelled || 0,
+    delivered: (byStatus.delivered || 0) + (byStatus.read || 0),
+    read: byStatus.read || 0,
+    replied,
+    optedOut,
+    pending: (byStatus.pending || 0) + (byStatus.processing || 0) + (byStatus.retrying || 0) + (byStatus.paused || 0)
+  };
+};
+
+// Rebuild campaign progress counters (and per-variant stats) from the actual message statuses
+const recalculateProgress = async (bulkMessageId: string) => {
+  const counts = await Message.aggregate([
+    { $match: { bulkMessageId: new mongoose.Types.ObjectId(bulkMessageId) } },
+    {
+      $group: {
+        _id: { status: '$status', variant: '$variant' },
+        count: { $sum: 1 },
+        replied: { $sum: { $cond: [{ $ifNull: ['$repliedAt', false] }, 1, 0] } },
+        optedOut: { $sum: { $cond: [{ $ifNull: ['$optedOutAt', false] }, 1, 0] } }
+      }
+    }
+  ]);
+
+  const rows = counts.map(c => ({
+    status: c._id.status,
+    variant: c._id.variant,
+    count: c.count,
+    replied: c.replied,
+    optedOut: c.optedOut
+  }));
+  const totals = tallyStatuses(rows);
+
+  const update: { [field: string]: any } = {
+    'progress.sent': totals.sent,
+    'progress.failed': totals.failed,
+    'progress.cancelled': totals.cancelled,
+    'progress.delivered': totals.delivered,
+    'progress.read': totals.read,
+    'progress.replied': totals.replied,
+    'progress.optedOut': totals.optedOut,
+    'progress.pending': totals.pending
+  };
+
+  const arrayFilters: any[] = [];
+  Array.from(new Set(rows.filter(row => row.variant).map(row => row.variant))).forEach((key, i) => {
+    const stats = tallyStatuses(rows.filter(row => row.variant === key));
+    update[`variants.$[v${i}].stats`] = {
+      assigned: stats.total,
+      sent: stats.sent,
+      delivered: stats.delivered,
+      read: stats.read,
+      replied: stats.replied,
+      failed: stats.failed
+    };
+    arrayFilters.push({ [`v${i}.key`]: key });
+  });
+
+  const bulkMessage = await BulkMessage.findByIdAndUpdate(
+    bulkMessageId,
+    { $set: update },
+    { new: true, arrayFilters }
+  );
+
+  return bulkMessage?.progress;
+};
+
 // @route   POST /api/messages/analyze
 // @desc    Analyze message for spam and get AI rewrite
 // @access  Private
@@ -70,99 +423,405 @@ router.post('/analyze', authenticate, async (req: Request, res: Response) => {
 });
 
 // @route   POST /api/messages/send-bulk
-// @desc    Send bulk messages with AI processing
+// @desc    Send bulk messages with AI processing. With ?dryRun=true, preview the
+//          rendered texts and schedule without saving or queueing anything
 // @access  Private
 router.post('/send-bulk', authenticate, async (req: Request, res: Response) => {
   try {
     const user = req.user!;
-    const { message, category, selectedContacts } = req.body;
+    const { message, selectedContacts, segmentId, scheduledAt, mediaId, templateId, variants, splitRatio, abTest, skipInvalidNumbers } = req.body;
+    const dryRun = req.query.dryRun === 'true' || req.body.dryRun === true;
 
     // Debug logging
     console.log('📤 Bulk message request:', { 
       message: message?.substring(0, 50) + '...', 
-      category, 
-      selectedContactsCount: selectedContacts?.length 
+      category: req.body.category, 
+      selectedContactsCount: selectedContacts?.length,
+      segmentId,
+      scheduledAt,
+      mediaId,
+      templateId,
+      variantCount: Array.isArray(variants) ? variants.length : undefined,
+      dryRun
     });
 
+    // A saved template stands in for the free-text message and supplies a default category
+    let template = null;
+    if (templateId) {
+      template = mongoose.Types.ObjectId.isValid(templateId)
+        ? await MessageTemplate.findOne({ _id: templateId, userId: user._id })
+        : null;
+      if (!template) {
+        return res.status(400).json({
+          success: false,
+          message: 'Message template not found'
+        });
+      }
+    }
+
+    // A/B variants replace the single message; variant A doubles as the campaign's main text
+    let abConfig: AbTestConfig | null = null;
+    let variantMessages: string[] = [];
+    if (variants !== undefined) {
+      if (template) {
+        return res.status(400).json({
+          success: false,
+          message: 'variants cannot be combined with templateId'
+        });
+      }
+
+      const parsed = abTestService.parseConfig(variants, splitRatio, abTest);
+      if (parsed.error) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error
+        });
+      }
+      abConfig = parsed.config;
+      variantMessages = parsed.messages;
+    }
+
+    const messageText = template ? template.body : (abConfig ? variantMessages[0] : message);
+    const category = req.body.category || template?.category;
+
     // Validate required fields
-    if (!message || !category || !selectedContacts || selectedContacts.length === 0) {
+    if ((!messageText && !mediaId) || !category || (!segmentId && (!selectedContacts || selectedContacts.length === 0))) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: message, category, and selectedContacts are required'
+        message: 'Missing required fields: message (or templateId or mediaId), category, and selectedContacts (or segmentId) are required'
       });
     }
 
-    // Check if WhatsApp is connected
+    // A segment is evaluated now, so the campaign goes to whoever matches its filters at send time
+    let segment = null;
+    if (segmentId) {
+      segment = mongoose.Types.ObjectId.isValid(segmentId)
+        ? await Segment.findOne({ _id: segmentId, userId: user._id })
+        : null;
+      if (!segment) {
+        return res.status(400).json({
+          success: false,
+          message: 'Segment not found'
+        });
+      }
+    }
+
+    // The attachment is uploaded beforehand and only referenced here
+    if (mediaId) {
+      const media = mongoose.Types.ObjectId.isValid(mediaId)
+        ? await MediaAsset.exists({ _id: mediaId, userId: user._id })
+        : null;
+      if (!media) {
+        return res.status(400).json({
+          success: false,
+          message: 'Media attachment not found'
+        });
+      }
+    }
+
+    // Resolve an optional future start time in the user's timezone
+    const timeZone = schedulingService.getUserTimeZone(user.settings);
+    let startAt: Date | null = null;
+    if (scheduledAt) {
+      startAt = schedulingService.parseScheduledAt(scheduledAt, timeZone);
+      if (!startAt || startAt.getTime() <= Date.now()) {
+        return res.status(400).json({
+          success: false,
+          message: 'scheduledAt must be a valid date/time in the future'
+        });
+      }
+    }
+
+    // Check if WhatsApp is connected (scheduled campaigns check again when they start)
     const userId = user._id.toString();
-    if (!whatsappService.isConnected(userId)) {
+    if (!startAt && !dryRun && !whatsappService.isConnected(userId)) {
       return res.status(400).json({
         success: false,
         message: 'WhatsApp is not connected. Please connect first.'
       });
     }
 
-    // Verify all contacts exist and belong to user
-    const contacts = await Contact.find({
-      _id: { $in: selectedContacts },
-      userId: user._id,
-      isActive: true
-    });
+    let contacts: IContact[];
+    if (segment) {
+      // Opt-outs are always dropped below, whatever the segment's opt-out filter says
+      contacts = await segmentService.evaluate(userId, segment.filters);
+      if (contacts.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'No contacts currently match this segment'
+        });
+      }
+
+      if (!dryRun) {
+        segment.lastCount = contacts.length;
+        segment.lastEvaluatedAt = new Date();
+        await segment.save();
+      }
+    } else {
+      // Verify all contacts exist and belong to user
+      contacts = await Contact.find({
+        _id: { $in: selectedContacts },
+        userId: user._id,
+        isActive: true
+      });
+
+      if (contacts.length !== selectedContacts.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'Some selected contacts are invalid or not found'
+        });
+      }
+    }
+
+    // Leave out anyone on the suppression list
+    const defaultCountry = phoneService.getDefaultCountry(user.settings);
+    const suppressedKeys = await suppressionService.getSuppressedKeys(userId, defaultCountry);
+    const subscribed = contacts.filter(contact => !suppressedKeys.has(suppressionService.getPhoneKey(contact.phone, defaultCountry)));
+    const suppressedCount = contacts.length - subscribed.length;
+
+    if (subscribed.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'All selected contacts have opted out of messages'
+      });
+    }
+
+    // Optionally leave out numbers the WhatsApp check found are not registered
+    const recipients = skipInvalidNumbers === true
+      ? subscribed.filter(contact => contact.whatsappStatus !== 'invalid')
+      : subscribed;
+    const skippedInvalidCount = subscribed.length - recipients.length;
+
+    if (recipients.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'None of the selected contacts have a number registered on WhatsApp'
+      });
+    }
+
+    // Render the template for every recipient up front, so missing variables reject the whole campaign
+    let renderedMessages: string[] | null = null;
+    if (template) {
+      const shared = await templateService.getSharedContext(userId);
+      const renders = recipients.map(contact => templateService.render(template, templateService.getContactContext(contact, shared)));
+
+      const incomplete = recipients
+        .map((contact, i) => ({ contactId: contact._id, name: contact.name, missingVariables: renders[i].missing }))
+        .filter(render => render.missingVariables.length > 0);
+
+      if (incomplete.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${incomplete.length} contacts are missing required template variables`,
+          data: { contacts: incomplete.slice(0, 20) } // Return first 20 for review
+        });
+      }
+
+      renderedMessages = renders.map(render => render.text);
+    }
 
-    if (contacts.length !== selectedContacts.length) {
+    // Deterministic A/B assignment; in winner mode the rest wait for the test cohort's result
+    const assignments = recipients.map(contact => abConfig ? {
+      variant: abTestService.assignVariant(abConfig, contact._id.toString()),
+      held: !abTestService.isInTestCohort(abConfig, contact._id.toString())
+    } : null);
+
+    if (abConfig?.mode === 'winner' && assignments.filter(assignment => !assignment.held).length < variantMessages.length) {
       return res.status(400).json({
         success: false,
-        message: 'Some selected contacts are invalid or not found'
+        message: 'Not enough contacts for a test cohort. Select more contacts, raise testPercent or use split mode.'
       });
     }
 
     // Get user settings for AI processing
     const userSettings = user.settings || {};
     
-    // Analyze and rewrite message
-    const analysis = await aiService.analyzeMessage(message, category);
+    // Analyze and rewrite the message, or the caption when sending media. Templates are
+    // analyzed as written (rewriting would break their placeholders) and keep the result.
+    let analysis: { isSpam: boolean; spamWords: string[]; rewrittenMessage: string; complianceScore: number };
+    const variantAnalyses: Array<typeof analysis> = [];
+    if (template) {
+      const templateAnalysis = await templateService.analyze(template);
+      if (!dryRun) {
+        template.usageCount += 1;
+        template.lastUsedAt = new Date();
+        await template.save();
+      }
+
+      analysis = { ...templateAnalysis, rewrittenMessage: template.body };
+    } else if (abConfig) {
+      for (const text of variantMessages) {
+        variantAnalyses.push(await aiService.analyzeMessage(text, category));
+      }
+      analysis = {
+        isSpam: variantAnalyses.some(variantAnalysis => variantAnalysis.isSpam),
+        spamWords: Array.from(new Set(variantAnalyses.flatMap(variantAnalysis => variantAnalysis.spamWords))),
+        rewrittenMessage: variantAnalyses[0].rewrittenMessage,
+        complianceScore: Math.min(...variantAnalyses.map(variantAnalysis => variantAnalysis.complianceScore))
+      };
+    } else if (message) {
+      analysis = await aiService.analyzeMessage(message, category);
+    } else {
+      analysis = { isSpam: false, spamWords: [], rewrittenMessage: '', complianceScore: 100 };
+    }
+
+    // Text each recipient's message is personalized from; null while held back for the A/B winner
+    const baseMessageFor = (i: number): string | null => {
+      if (renderedMessages) return renderedMessages[i];
+      const assignment = assignments[i];
+      if (assignment) {
+        return assignment.held ? null : variantAnalyses[VARIANT_KEYS.indexOf(assignment.variant)].rewrittenMessage;
+      }
+      return analysis.rewrittenMessage;
+    };
+
+    if (dryRun) {
+      const sampleSize = Math.min(Math.max(parseInt((req.query.sampleSize || req.body.sampleSize) as string) || 5, 1), 20);
+
+      // Held-back contacts go out after the test cohort has finished and the wait is over
+      const sendingIndexes = recipients.map((contact, i) => i).filter(i => !assignments[i]?.held);
+      const heldIndexes = recipients.map((contact, i) => i).filter(i => assignments[i]?.held);
+      const sendTimes: Date[] = [];
+      planCampaignSendTimes(sendingIndexes.length, userSettings, startAt || new Date())
+        .forEach((time, n) => { sendTimes[sendingIndexes[n]] = time; });
+      if (heldIndexes.length > 0) {
+        const lastTestSend = sendTimes[sendingIndexes[sendingIndexes.length - 1]];
+        const decideAt = new Date(lastTestSend.getTime() + abConfig.waitHours * 60 * 60 * 1000);
+        planCampaignSendTimes(heldIndexes.length, userSettings, decideAt)
+          .forEach((time, n) => { sendTimes[heldIndexes[n]] = time; });
+      }
+      const projectedCompletionAt = new Date(Math.max(...sendTimes.map(time => time.getTime())));
+
+      // Personalize a sample exactly as the real send would
+      const sample = [];
+      for (let i = 0; i < Math.min(sampleSize, recipients.length); i++) {
+        const contact = recipients[i];
+        const baseMessage = baseMessageFor(i);
+        const text = baseMessage
+          ? await aiService.generatePersonalizedMessage(baseMessage, contact.name, (i % 20) + 1, category)
+          : '';
+
+        sample.push({
+          contactId: contact._id,
+          name: contact.name,
+          phone: contact.phone,
+          variant: assignments[i] && !assignments[i].held ? assignments[i].variant : undefined,
+          awaitingWinner: assignments[i]?.held || undefined,
+          text: assignments[i]?.held ? null : text,
+          scheduledFor: sendTimes[i],
+          localScheduledFor: schedulingService.formatInTimeZone(sendTimes[i], timeZone)
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Dry run completed. Nothing was saved or queued.',
+        data: {
+          dryRun: true,
+          totalContacts: recipients.length,
+          suppressedContacts: suppressedCount,
+          skippedInvalidNumbers: skippedInvalidCount,
+          whatsappConnected: whatsappService.isConnected(userId),
+          messageDelay: userSettings.messageDelay || 60,
+          timezone: timeZone,
+          projectedStartAt: sendTimes[sendingIndexes[0]], // The first contact may be held back for the A/B winner
+          projectedCompletionAt,
+          localProjectedCompletionAt: schedulingService.formatInTimeZone(projectedCompletionAt, timeZone),
+          mediaId: mediaId || null,
+          analysis: {
+            isSpam: analysis.isSpam,
+            spamWords: analysis.spamWords,
+            complianceScore: analysis.complianceScore,
+            rewrittenMessage: analysis.rewrittenMessage
+          },
+          variants: abConfig ? variantMessages.map((text, v) => ({
+            key: VARIANT_KEYS[v],
+            ratio: abConfig.ratios[v],
+            rewrittenMessage: variantAnalyses[v].rewrittenMessage,
+            spamWords: variantAnalyses[v].spamWords,
+            contacts: assignments.filter(assignment => !assignment.held && assignment.variant === VARIANT_KEYS[v]).length
+          })) : undefined,
+          awaitingWinner: abConfig?.mode === 'winner' ? assignments.filter(assignment => assignment.held).length : undefined,
+          sample
+        }
+      });
+    }
 
     // Create bulk message record
     const bulkMessage = new BulkMessage({
       userId: user._id,
-      originalMessage: message,
+      originalMessage: messageText,
       aiRewrittenMessage: analysis.rewrittenMessage,
       category,
-      selectedContacts,
-      totalContacts: contacts.length,
+      selectedContacts: recipients.map(contact => contact._id),
+      mediaId: mediaId || undefined,
+      templateId: template ? template._id : undefined,
+      segmentId: segment ? segment._id : undefined,
+      variants: abConfig ? variantMessages.map((text, v) => ({
+        key: VARIANT_KEYS[v],
+        message: text,
+        aiRewrittenMessage: variantAnalyses[v].rewrittenMessage,
+        spamWords: variantAnalyses[v].spamWords,
+        ratio: abConfig.ratios[v],
+        stats: {
+          assigned: assignments.filter(assignment => !assignment.held && assignment.variant === VARIANT_KEYS[v]).length
+        }
+      })) : [],
+      abTest: abConfig ? {
+        mode: abConfig.mode,
+        seed: abConfig.seed,
+        testPercent: abConfig.testPercent,
+        waitHours: abConfig.waitHours,
+        metric: abConfig.metric
+      } : undefined,
+      totalContacts: recipients.length,
       spamWords: analysis.spamWords,
+      scheduledAt: startAt || undefined,
+      timezone: timeZone,
       progress: {
-        total: contacts.length,
+        total: recipients.length,
         sent: 0,
         failed: 0,
-        pending: contacts.length
+        pending: recipients.length
       }
     });
 
     await bulkMessage.save();
 
     // Generate completely unique messages for each contact with category-based personalization
-    console.log(`🎯 Generating ${contacts.length} unique messages with category: ${category}`);
+    console.log(`🎯 Generating ${recipients.length} unique messages with category: ${category}`);
     const messages = [];
     
-    for (let i = 0; i < contacts.length; i++) {
-      const contact = contacts[i];
+    for (let i = 0; i < recipients.length; i++) {
+      const contact = recipients[i];
       
       // Generate truly personalized message for each contact based on their category
       const contactCategory = contact.category || 'general';
       const variationIndex = (i % 20) + 1; // Increased variation range
       
-      const personalizedMessage = await aiService.generatePersonalizedMessage(
-        analysis.rewrittenMessage,
-        contact.name,
-        variationIndex,
-        category // Pass message category to AI service
-      );
+      const assignment = assignments[i];
+      const baseMessage = baseMessageFor(i);
+      const personalizedMessage = baseMessage
+        ? await aiService.generatePersonalizedMessage(
+          baseMessage,
+          contact.name,
+          variationIndex,
+          category // Pass message category to AI service
+        )
+        : '';
 
       const messageRecord = new Message({
         userId: user._id,
         contactId: contact._id,
-        originalMessage: message,
-        aiRewrittenMessage: personalizedMessage,
+        bulkMessageId: bulkMessage._id,
+        mediaId: mediaId || undefined,
+        // Held-back messages keep variant A's text until the winner replaces it
+        originalMessage: renderedMessages
+          ? renderedMessages[i]
+          : (assignment ? variantMessages[assignment.held ? 0 : VARIANT_KEYS.indexOf(assignment.variant)] : message),
+        aiRewrittenMessage: assignment?.held ? variantAnalyses[0].rewrittenMessage : personalizedMessage,
+        variant: assignment && !assignment.held ? assignment.variant : undefined,
+        awaitingWinner: assignment?.held || undefined,
         category,
         spamWords: analysis.spamWords,
         status: 'pending'
@@ -172,45 +831,60 @@ router.post('/send-bulk', authenticate, async (req: Request, res: Response) => {
       
       // Log progress for large batches
       if ((i + 1) % 50 === 0) {
-        console.log(`✅ Generated ${i + 1}/${contacts.length} personalized messages`);
+        console.log(`✅ Generated ${i + 1}/${recipients.length} personalized messages`);
       }
     }
 
     await Message.insertMany(messages);
     console.log(`📝 Created ${messages.length} message records in database`);
 
-    // Get user settings for message delay and retry attempts
-    const messageSettings = user.settings || {};
-    const messageDelaySeconds = messageSettings.messageDelay || 60; // User's delay in seconds
-    const maxRetries = messageSettings.maxRetries || 3;
-    
-    console.log(`📅 Scheduling ${messages.length} messages with ${messageDelaySeconds}s delay between each`);
-    
-    // Add jobs to queue with calculated delays
-    for (let i = 0; i < messages.length; i++) {
-      const messageRecord = messages[i];
-      const delay = i * messageDelaySeconds * 1000; // Convert to milliseconds
-      
-      console.log(`📤 Message ${i + 1}/${messages.length}: ${messageRecord.contactId} - Delay: ${delay}ms (${Math.round(delay / 1000)}s)`);
-      
-      await messageQueue.add('send-message', {
-        messageId: messageRecord._id.toString(),
-        bulkMessageId: bulkMessage._id.toString(),
-        userId: userId,
-        contactPhone: contacts.find(c => c._id.toString() === messageRecord.contactId.toString())?.phone,
-        message: messageRecord.aiRewrittenMessage,
-        contactIndex: i,
-        totalContacts: messages.length
-      }, {
-        delay: delay, // Calculated delay for each message
-        attempts: maxRetries, // Use user-configured retry attempts
-        backoff: {
-          type: 'exponential',
-          delay: 2000,
+    if (startAt) {
+      await scheduleCampaignStart(bulkMessage._id.toString(), startAt);
+
+      bulkMessage.status = 'scheduled';
+      await bulkMessage.save();
+
+      console.log(`📅 Campaign ${bulkMessage._id} scheduled for ${schedulingService.formatInTimeZone(startAt, timeZone)} (${timeZone})`);
+
+      return res.json({
+        success: true,
+        message: 'Bulk message scheduled',
+        data: {
+          bulkMessageId: bulkMessage._id,
+          totalContacts: recipients.length,
+          suppressedContacts: suppressedCount,
+          skippedInvalidNumbers: skippedInvalidCount,
+          status: 'scheduled',
+          scheduledAt: startAt,
+          timezone: timeZone,
+          localScheduledAt: schedulingService.formatInTimeZone(startAt, timeZone),
+          analysis: {
+            isSpam: analysis.isSpam,
+            spamWords: analysis.spamWords,
+            complianceScore: analysis.complianceScore
+          },
+          variants: abConfig ? abTestService.summarize(bulkMessage) : undefined,
+          abTest: bulkMessage.abTest
         }
       });
     }
 
+    // Add jobs to queue with calculated delays
+    const projectedCompletionAt = await enqueueCampaignMessages(
+      bulkMessage._id.toString(),
+      userId,
+      messages.filter(messageRecord => !messageRecord.awaitingWinner).map(messageRecord => ({
+        messageId: messageRecord._id.toString(),
+        contactPhone: recipients.find(c => c._id.toString() === messageRecord.contactId.toString())?.phone,
+        message: messageRecord.aiRewrittenMessage
+      })),
+      user.settings || {}
+    );
+
+    if (abConfig?.mode === 'winner') {
+      await scheduleWinnerDecision(bulkMessage._id.toString(), projectedCompletionAt, abConfig.waitHours);
+    }
+
     // Update bulk message status
     bulkMessage.status = 'processing';
     bulkMessage.startedAt = new Date();
@@ -221,13 +895,18 @@ router.post('/send-bulk', authenticate, async (req: Request, res: Response) => {
       message: 'Bulk message processing started',
       data: {
         bulkMessageId: bulkMessage._id,
-        totalContacts: contacts.length,
+        totalContacts: recipients.length,
+        suppressedContacts: suppressedCount,
+        skippedInvalidNumbers: skippedInvalidCount,
         status: 'processing',
+        projectedCompletionAt,
         analysis: {
           isSpam: analysis.isSpam,
           spamWords: analysis.spamWords,
           complianceScore: analysis.complianceScore
-        }
+        },
+        variants: abConfig ? abTestService.summarize(bulkMessage) : undefined,
+        abTest: bulkMessage.abTest
       }
     });
 
@@ -240,6 +919,141 @@ router.post('/send-bulk', authenticate, async (req: Request, res: Response) => {
   }
 });
 
+// @route   POST /api/messages/send
+// @desc    Send a single message, optionally with a media attachment, to one contact
+// @access  Private
+router.post('/send', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { contactId, message, mediaId, category = 'other' } = req.body;
+
+    if (!contactId || (!message && !mediaId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: contactId and message (or mediaId) are required'
+      });
+    }
+
+    const userId = user._id.toString();
+    if (!whatsappService.isConnected(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'WhatsApp is not connected. Please connect first.'
+      });
+    }
+
+    const contact = mongoose.Types.ObjectId.isValid(contactId)
+      ? await Contact.findOne({ _id: contactId, userId: user._id, isActive: true })
+      : null;
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found'
+      });
+    }
+
+    if (await suppressionService.isSuppressed(userId, contact.phone, phoneService.getDefaultCountry(user.settings))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This contact has opted out of messages'
+      });
+    }
+
+    // Single sends obey the same sending window and warm-up cap as campaign sends
+    const userSettings = user.settings || {};
+    const timeZone = schedulingService.getUserTimeZone(userSettings);
+    const sendingWindow = schedulingService.getSendingWindow(userSettings);
+    if (!schedulingService.isWithinWindow(new Date(), sendingWindow, timeZone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Messages cannot be sent outside your sending window',
+        data: {
+          nextOpenAt: schedulingService.getNextOpenSlot(new Date(), sendingWindow, timeZone)
+        }
+      });
+    }
+
+    let attachment;
+    if (mediaId) {
+      const media = mongoose.Types.ObjectId.isValid(mediaId)
+        ? await MediaAsset.exists({ _id: mediaId, userId: user._id })
+        : null;
+      attachment = media ? await mediaService.getAttachment(mediaId) : null;
+      if (!attachment) {
+        return res.status(400).json({
+          success: false,
+          message: 'Media attachment not found'
+        });
+      }
+    }
+
+    // Analyze and rewrite the text, or the caption when sending media, as for campaigns
+    const analysis = message ? await aiService.analyzeMessage(message, category) : null;
+
+    const senderNumber = whatsappService.getConnectedNumber(userId) || `user-${userId}`;
+    const warmup = await warmupService.reserveSend(senderNumber, userSettings);
+    if (!warmup.allowed) {
+      return res.status(429).json({
+        success: false,
+        message: `Daily warm-up cap of ${warmup.cap} messages reached for this number`,
+        data: {
+          resumeAt: warmup.resumeAt
+        }
+      });
+    }
+    const reservedAt = new Date();
+
+    const messageRecord = await Message.create({
+      userId: user._id,
+      contactId: contact._id,
+      mediaId: mediaId || undefined,
+      originalMessage: message || '',
+      aiRewrittenMessage: analysis ? analysis.rewrittenMessage : '',
+      category,
+      spamWords: analysis ? analysis.spamWords : [],
+      status: 'processing'
+    });
+
+    const result = await whatsappService.sendMessage(userId, contact.phone, messageRecord.aiRewrittenMessage, attachment);
+
+    if (result.success) {
+      messageRecord.status = 'sent';
+      messageRecord.whatsappMessageId = result.messageId || 'unknown';
+      messageRecord.sentAt = new Date();
+    } else {
+      messageRecord.status = 'failed';
+      messageRecord.errorMessage = result.error;
+      // Failed sends do not use up the number's daily allowance
+      await warmupService.releaseSend(senderNumber, userSettings, reservedAt);
+    }
+    await messageRecord.save();
+
+    res.status(result.success ? 200 : 502).json({
+      success: result.success,
+      message: result.success ? 'Message sent successfully' : (result.error || 'Failed to send message'),
+      data: {
+        messageId: messageRecord._id,
+        status: messageRecord.status,
+        whatsappMessageId: messageRecord.whatsappMessageId,
+        ...(analysis && {
+          analysis: {
+            isSpam: analysis.isSpam,
+            spamWords: analysis.spamWords,
+            complianceScore: analysis.complianceScore
+          }
+        })
+      }
+    });
+
+  } catch (error) {
+    console.error('Send message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while sending message'
+    });
+  }
+});
+
 // @route   GET /api/messages/bulk
 // @desc    Get all bulk messages for user
 // @access  Private
@@ -308,13 +1122,33 @@ router.get('/bulk/:id/status', authenticate, async (req: Request, res: Response)
           status: bulkMessage.status,
           progress: bulkMessage.progress,
           progressPercentage: (bulkMessage as any).progressPercentage,
+          deliveryRate: (bulkMessage as any).deliveryRate,
+          readRate: (bulkMessage as any).readRate,
+          replyRate: (bulkMessage as any).replyRate,
           originalMessage: bulkMessage.originalMessage,
           aiRewrittenMessage: bulkMessage.aiRewrittenMessage,
+          mediaId: bulkMessage.mediaId,
           category: bulkMessage.category,
           totalContacts: bulkMessage.totalContacts,
+          scheduledAt: bulkMessage.scheduledAt,
+          timezone: bulkMessage.timezone,
           startedAt: bulkMessage.startedAt,
+          pausedAt: bulkMessage.pausedAt,
+          cancelledAt: bulkMessage.cancelledAt,
           completedAt: bulkMessage.completedAt,
-          spamWords: bulkMessage.spamWords
+          projectedCompletionAt: bulkMessage.projectedCompletionAt,
+          localProjectedCompletionAt: bulkMessage.projectedCompletionAt
+            ? schedulingService.formatInTimeZone(bulkMessage.projectedCompletionAt, bulkMessage.timezone || schedulingService.getUserTimeZone(user.settings))
+            : null,
+          spamWords: bulkMessage.spamWords,
+          abTest: bulkMessage.abTest,
+          variants: abTestService.summarize(bulkMessage),
+          retryHistory: bulkMessage.retryHistory,
+          throttle: {
+            level: bulkMessage.throttle?.level || 0,
+            multiplier: throttleService.getMultiplier(bulkMessage.throttle?.level),
+            decisions: bulkMessage.throttle?.decisions || []
+          }
         }
       }
     });
@@ -379,6 +1213,8 @@ router.get('/bulk/:id/details', authenticate, async (req: Request, res: Response
           sentAt: msg.sentAt,
           deliveredAt: msg.deliveredAt,
           readAt: msg.readAt,
+          repliedAt: msg.repliedAt,
+          replyCount: msg.replyCount,
           errorMessage: msg.errorMessage,
           retryCount: msg.retryCount
         })),
@@ -401,53 +1237,539 @@ router.get('/bulk/:id/details', authenticate, async (req: Request, res: Response
   }
 });
 
-// @route   GET /api/messages/history
-// @desc    Get message history for the user
+// @route   GET /api/messages/bulk/:id/report
+// @desc    Get campaign analytics report (format=json|csv|xlsx)
 // @access  Private
-router.get('/history', authenticate, async (req: Request, res: Response) => {
+router.get('/bulk/:id/report', authenticate, async (req: Request, res: Response) => {
   try {
     const user = req.user!;
-    const { page = 1, limit = 50, status = '' } = req.query;
+    const { id } = req.params;
+    const { format = 'json' } = req.query;
 
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
-    const skip = (pageNum - 1) * limitNum;
+    if (!['json', 'csv', 'xlsx'].includes(format as string)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Format must be one of: json, csv, xlsx'
+      });
+    }
 
-    let query: any = { userId: user._id };
-    if (status) {
-      query.status = status;
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
     }
 
-    const messages = await Message.find(query)
-      .populate('contactId', 'name phone')
-      .sort({ createdAt: -1 })
-      .skip(skip)
-      .limit(limitNum);
+    const report = await campaignReportService.buildReport(bulkMessage);
+    const filename = `campaign-${bulkMessage._id}-report`;
 
-    const total = await Message.countDocuments(query);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(campaignReportService.toCsv(report));
+    }
+
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+      return res.send(campaignReportService.toXlsx(report));
+    }
 
     res.json({
       success: true,
-      data: {
-        messages: messages.map(msg => ({
-          id: msg._id,
-          contact: msg.contactId,
-          originalMessage: msg.originalMessage,
-          aiRewrittenMessage: msg.aiRewrittenMessage,
-          category: msg.category,
-          status: msg.status,
-          sentAt: msg.sentAt,
-          deliveredAt: msg.deliveredAt,
-          readAt: msg.readAt,
-          errorMessage: msg.errorMessage,
-          retryCount: msg.retryCount,
-          createdAt: msg.createdAt
-        })),
-        pagination: {
-          currentPage: pageNum,
-          totalPages: Math.ceil(total / limitNum),
-          totalMessages: total,
-          hasNext: pageNum < Math.ceil(total / limitNum),
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Bulk message report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   PUT /api/messages/bulk/:id/schedule
+// @desc    Reschedule a campaign that has not started yet
+// @access  Private
+router.put('/bulk/:id/schedule', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { scheduledAt } = req.body;
+
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
+    }
+
+    if (bulkMessage.status !== 'scheduled') {
+      return res.status(400).json({
+        success: false,
+        message: `Only scheduled campaigns can be rescheduled (current status: ${bulkMessage.status})`
+      });
+    }
+
+    const timeZone = schedulingService.getUserTimeZone(user.settings);
+    const startAt = schedulingService.parseScheduledAt(scheduledAt, timeZone);
+    if (!startAt || startAt.getTime() <= Date.now()) {
+      return res.status(400).json({
+        success: false,
+        message: 'scheduledAt must be a valid date/time in the future'
+      });
+    }
+
+    await removeCampaignJobs(bulkMessage._id.toString());
+
+    bulkMessage.scheduledAt = startAt;
+    bulkMessage.timezone = timeZone;
+    await bulkMessage.save();
+
+    await scheduleCampaignStart(bulkMessage._id.toString(), startAt);
+
+    console.log(`📅 Campaign ${id} rescheduled to ${schedulingService.formatInTimeZone(startAt, timeZone)} (${timeZone})`);
+
+    res.json({
+      success: true,
+      message: 'Bulk message rescheduled',
+      data: {
+        bulkMessageId: bulkMessage._id,
+        status: bulkMessage.status,
+        scheduledAt: startAt,
+        timezone: timeZone,
+        localScheduledAt: schedulingService.formatInTimeZone(startAt, timeZone)
+      }
+    });
+
+  } catch (error) {
+    console.error('Reschedule bulk message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/messages/bulk/:id/pause
+// @desc    Pause a running bulk message campaign
+// @access  Private
+router.post('/bulk/:id/pause', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
+    }
+
+    if (bulkMessage.status !== 'processing') {
+      return res.status(400).json({
+        success: false,
+        message: `Only processing campaigns can be paused (current status: ${bulkMessage.status})`
+      });
+    }
+
+    bulkMessage.status = 'paused';
+    bulkMessage.pausedAt = new Date();
+    await bulkMessage.save();
+
+    // Drop the queued jobs; paused messages are re-enqueued on resume
+    const { heldMessages, progress } = await holdCampaignMessages(bulkMessage._id.toString());
+
+    console.log(`⏸️ Campaign ${id} paused, ${heldMessages} messages on hold`);
+
+    res.json({
+      success: true,
+      message: 'Bulk message campaign paused',
+      data: {
+        bulkMessageId: bulkMessage._id,
+        status: bulkMessage.status,
+        pausedMessages: heldMessages,
+        progress
+      }
+    });
+
+  } catch (error) {
+    console.error('Pause bulk message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/messages/bulk/:id/resume
+// @desc    Resume a paused bulk message campaign
+// @access  Private
+router.post('/bulk/:id/resume', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const userId = user._id.toString();
+    const { id } = req.params;
+
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
+    }
+
+    if (bulkMessage.status !== 'paused') {
+      return res.status(400).json({
+        success: false,
+        message: `Only paused campaigns can be resumed (current status: ${bulkMessage.status})`
+      });
+    }
+
+    if (!whatsappService.isConnected(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'WhatsApp is not connected. Please connect first.'
+      });
+    }
+
+    const pausedMessages = await Message.find({
+      bulkMessageId: bulkMessage._id,
+      status: 'paused',
+      awaitingWinner: { $ne: true }
+    })
+    .populate('contactId', 'phone')
+    .sort({ createdAt: 1 });
+
+    await Message.updateMany(
+      { _id: { $in: pausedMessages.map(msg => msg._id) } },
+      { status: 'pending' }
+    );
+
+    // Messages held for an A/B winner are queued once the winner is picked
+    await Message.updateMany(
+      { bulkMessageId: bulkMessage._id, status: 'paused', awaitingWinner: true },
+      { status: 'pending' }
+    );
+
+    bulkMessage.status = 'processing';
+    bulkMessage.pausedAt = undefined;
+    await bulkMessage.save();
+
+    const projectedCompletionAt = await enqueueCampaignMessages(
+      bulkMessage._id.toString(),
+      userId,
+      pausedMessages.map(msg => ({
+        messageId: msg._id.toString(),
+        contactPhone: (msg.contactId as any)?.phone,
+        message: msg.aiRewrittenMessage
+      })),
+      user.settings || {}
+    );
+
+    const progress = await recalculateProgress(bulkMessage._id.toString());
+
+    // Nothing was left to send, so the campaign is already finished
+    if (progress && progress.pending === 0) {
+      await BulkMessage.updateOne(
+        { _id: bulkMessage._id, status: 'processing' },
+        { status: 'completed', completedAt: new Date() }
+      );
+    }
+
+    console.log(`▶️ Campaign ${id} resumed, ${pausedMessages.length} messages re-queued`);
+
+    res.json({
+      success: true,
+      message: 'Bulk message campaign resumed',
+      data: {
+        bulkMessageId: bulkMessage._id,
+        status: progress && progress.pending === 0 ? 'completed' : 'processing',
+        resumedMessages: pausedMessages.length,
+        projectedCompletionAt,
+        progress
+      }
+    });
+
+  } catch (error) {
+    console.error('Resume bulk message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/messages/bulk/:id/cancel
+// @desc    Cancel a bulk message campaign and drop its unsent messages
+// @access  Private
+router.post('/bulk/:id/cancel', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
+    }
+
+    if (['completed', 'failed', 'cancelled'].includes(bulkMessage.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Campaign cannot be cancelled (current status: ${bulkMessage.status})`
+      });
+    }
+
+    bulkMessage.status = 'cancelled';
+    bulkMessage.cancelledAt = new Date();
+    await bulkMessage.save();
+
+    // Messages already being sent are left to finish; everything else is dropped
+    await removeCampaignJobs(bulkMessage._id.toString());
+    const result = await Message.updateMany(
+      { bulkMessageId: bulkMessage._id, status: { $in: ['pending', 'retrying', 'paused'] } },
+      { status: 'cancelled', errorMessage: 'Cancelled by user' }
+    );
+
+    const progress = await recalculateProgress(bulkMessage._id.toString());
+
+    console.log(`🛑 Campaign ${id} cancelled, ${result.modifiedCount} messages dropped`);
+
+    res.json({
+      success: true,
+      message: 'Bulk message campaign cancelled',
+      data: {
+        bulkMessageId: bulkMessage._id,
+        status: bulkMessage.status,
+        cancelledMessages: result.modifiedCount,
+        progress
+      }
+    });
+
+  } catch (error) {
+    console.error('Cancel bulk message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/messages/bulk/:id/retry-failed
+// @desc    Re-send the failed messages of a finished campaign, optionally only some failure classes
+// @access  Private
+router.post('/bulk/:id/retry-failed', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const userId = user._id.toString();
+    const { id } = req.params;
+    const failureClasses: string[] = req.body.failureClasses || [];
+
+    const validClasses = [...FAILURE_CLASSES.map(failureClass => failureClass.key), 'other'];
+    if (!Array.isArray(failureClasses) || failureClasses.some(failureClass => !validClasses.includes(failureClass))) {
+      return res.status(400).json({
+        success: false,
+        message: `failureClasses must only contain: ${validClasses.join(', ')}`
+      });
+    }
+
+    const bulkMessage = await BulkMessage.findOne({
+      _id: id,
+      userId: user._id
+    });
+
+    if (!bulkMessage) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bulk message not found'
+      });
+    }
+
+    if (!['completed', 'failed'].includes(bulkMessage.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Only finished campaigns can retry failed messages (current status: ${bulkMessage.status})`
+      });
+    }
+
+    if ((bulkMessage.retryHistory || []).length >= MAX_RETRY_ROUNDS) {
+      return res.status(400).json({
+        success: false,
+        message: `Failed messages of this campaign have already been retried ${MAX_RETRY_ROUNDS} times`
+      });
+    }
+
+    if (!whatsappService.isConnected(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'WhatsApp is not connected. Please connect first.'
+      });
+    }
+
+    const failedMessages = (await Message.find({
+      bulkMessageId: bulkMessage._id,
+      status: 'failed'
+    })
+    .populate('contactId', 'phone')
+    .sort({ createdAt: 1 }))
+    .filter(msg => failureClasses.length === 0 ||
+      failureClasses.includes(campaignTrackingService.classifyFailure(msg.errorMessage)));
+
+    if (failedMessages.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No failed messages match the selected failure classes'
+      });
+    }
+
+    const byFailureClass = new Map<string, number>();
+    failedMessages.forEach(msg => {
+      const failureClass = campaignTrackingService.classifyFailure(msg.errorMessage);
+      byFailureClass.set(failureClass, (byFailureClass.get(failureClass) || 0) + 1);
+    });
+
+    // Claim the campaign so two retry requests cannot queue the same messages twice
+    const claimed = await BulkMessage.findOneAndUpdate(
+      { _id: bulkMessage._id, status: bulkMessage.status },
+      {
+        $set: { status: 'processing' },
+        $unset: { completedAt: 1, errorMessage: 1 },
+        $push: {
+          retryHistory: {
+            requestedAt: new Date(),
+            failureClasses,
+            messageCount: failedMessages.length,
+            byFailureClass: Array.from(byFailureClass.entries()).map(([failureClass, count]) => ({ failureClass, count }))
+          }
+        }
+      },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'Campaign status changed, please try again'
+      });
+    }
+
+    // Each retry round gets the full number of send attempts again
+    await Message.updateMany(
+      { _id: { $in: failedMessages.map(msg => msg._id) }, status: 'failed' },
+      { $set: { status: 'pending', retryCount: 0 }, $unset: { errorMessage: 1 } }
+    );
+
+    const projectedCompletionAt = await enqueueCampaignMessages(
+      bulkMessage._id.toString(),
+      userId,
+      failedMessages.map(msg => ({
+        messageId: msg._id.toString(),
+        contactPhone: (msg.contactId as any)?.phone,
+        message: msg.aiRewrittenMessage
+      })),
+      user.settings || {}
+    );
+
+    const progress = await recalculateProgress(bulkMessage._id.toString());
+
+    console.log(`🔁 Campaign ${id} retrying ${failedMessages.length} failed messages`);
+
+    res.json({
+      success: true,
+      message: 'Failed messages re-queued',
+      data: {
+        bulkMessageId: bulkMessage._id,
+        status: claimed.status,
+        retriedMessages: failedMessages.length,
+        retryRound: claimed.retryHistory.length,
+        projectedCompletionAt,
+        progress,
+        retryHistory: claimed.retryHistory
+      }
+    });
+
+  } catch (error) {
+    console.error('Retry failed messages error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/messages/history
+// @desc    Get message history for the user
+// @access  Private
+router.get('/history', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { page = 1, limit = 50, status = '' } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    let query: any = { userId: user._id };
+    if (status) {
+      query.status = status;
+    }
+
+    const messages = await Message.find(query)
+      .populate('contactId', 'name phone')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limitNum);
+
+    const total = await Message.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: {
+        messages: messages.map(msg => ({
+          id: msg._id,
+          contact: msg.contactId,
+          originalMessage: msg.originalMessage,
+          aiRewrittenMessage: msg.aiRewrittenMessage,
+          category: msg.category,
+          status: msg.status,
+          sentAt: msg.sentAt,
+          deliveredAt: msg.deliveredAt,
+          readAt: msg.readAt,
+          errorMessage: msg.errorMessage,
+          retryCount: msg.retryCount,
+          createdAt: msg.createdAt
+        })),
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(total / limitNum),
+          totalMessages: total,
+          hasNext: pageNum < Math.ceil(total / limitNum),
           hasPrev: pageNum > 1
         }
       }
@@ -515,30 +1837,11 @@ router.get('/statistics', authenticate, async (req: Request, res: Response) => {
     const totalContacts = await Contact.countDocuments({ userId: user._id, isActive: true });
     console.log('Total contacts:', totalContacts);
 
-    // If no data exists, create some sample data for testing
-    if (totalContacts === 0 && stats.length === 0) {
-      console.log('No data found, creating sample data for testing...');
-      
-      // Create sample contacts
-      const sampleContacts = [
-        { userId: user._id, name: 'John Doe', phone: '+1234567890', email: 'john@example.com', isActive: true },
-        { userId: user._id, name: 'Jane Smith', phone: '+1234567891', email: 'jane@example.com', isActive: true },
-        { userId: user._id, name: 'Bob Johnson', phone: '+1234567892', email: 'bob@example.com', isActive: true },
-        { userId: user._id, name: 'Alice Brown', phone: '+1234567893', email: 'alice@example.com', isActive: true },
-        { userId: user._id, name: 'Charlie Wilson', phone: '+1234567894', email: 'charlie@example.com', isActive: true },
-        { userId: user._id, name: 'Diana Davis', phone: '+1234567895', email: 'diana@example.com', isActive: true },
-        { userId: user._id, name: 'Eve Miller', phone: '+1234567896', email: 'eve@example.com', isActive: true }
-      ];
-      
-      await Contact.insertMany(sampleContacts);
-      console.log('Sample contacts created');
-    }
-
     const responseData = {
       period: `${days} days`,
       messageStats: stats,
       bulkMessageStats: bulkStats,
-      totalContacts: await Contact.countDocuments({ userId: user._id, isActive: true })
+      totalContacts
     };
 
     console.log('Sending statistics response:', responseData);
@@ -560,16 +1863,90 @@ router.get('/statistics', authenticate, async (req: Request, res: Response) => {
 
 // Process message queue with production-level concurrency
 messageQueue.process('send-message', 5, async (job) => {
-  const { messageId, bulkMessageId, userId, contactPhone, message, contactIndex, totalContacts } = job.data;
+  const { messageId, bulkMessageId, userId, contactPhone, message, mediaId, contactIndex, totalContacts } = job.data;
+  let reservation: { number: string; settings: any; at: Date } | null = null; // Warm-up allowance taken for this send
+  let userSettings: any = {};
 
   try {
     console.log(`📤 [${contactIndex + 1}/${totalContacts}] Processing message for ${contactPhone}`);
+
+    // A retry or a job that was already running may fire after the campaign was paused or cancelled
+    const campaign = await BulkMessage.findById(bulkMessageId).select('status');
+    if (!campaign || campaign.status !== 'processing') {
+      const held = campaign?.status === 'paused';
+      await Message.updateOne(
+        { _id: messageId, status: { $in: ['pending', 'retrying'] } },
+        held ? { status: 'paused' } : { status: 'cancelled', errorMessage: 'Campaign is no longer running' }
+      );
+      await recalculateProgress(bulkMessageId);
+      console.log(`⏭️ [${contactIndex + 1}/${totalContacts}] Skipping ${contactPhone}, campaign is ${campaign?.status || 'deleted'}`);
+      return { skipped: true };
+    }
+
+    // Never send outside the user's sending window; push the campaign to the next open slot instead
+    const sender = await User.findById(userId).select('settings');
+    userSettings = sender?.settings || {};
+    const sendingWindow = schedulingService.getSendingWindow(userSettings);
+    if (!schedulingService.isWithinWindow(new Date(), sendingWindow, schedulingService.getUserTimeZone(userSettings))) {
+      await deferCampaign(bulkMessageId, userId, userSettings, 'fired outside its sending window');
+      return { deferred: true };
+    }
+
+    // New numbers get banned for sudden volume, so each number has a daily cap that ramps up
+    const senderNumber = whatsappService.getConnectedNumber(userId) || `user-${userId}`;
+    const warmup = await warmupService.reserveSend(senderNumber, userSettings);
+    if (!warmup.allowed) {
+      console.log(`🧊 [${contactIndex + 1}/${totalContacts}] Daily cap of ${warmup.cap} reached for ${senderNumber}, deferring to ${warmup.resumeAt.toISOString()}`);
+      await deferCampaign(bulkMessageId, userId, userSettings, 'hit the daily warm-up cap', warmup.resumeAt);
+      return { deferred: true };
+    }
+    reservation = { number: senderNumber, settings: userSettings, at: new Date() };
     
-    // Update message status to processing
-    await Message.findByIdAndUpdate(messageId, { status: 'processing' });
+    // Update message status to processing, unless it was paused, cancelled, sent or given up on meanwhile
+    const claimed = await Message.findOneAndUpdate(
+      { _id: messageId, status: { $in: ['pending', 'retrying'] } },
+      { status: 'processing' }
+    );
+
+    if (!claimed) {
+      await warmupService.releaseSend(reservation.number, reservation.settings, reservation.at);
+      reservation = null;
+      console.log(`⏭️ [${contactIndex + 1}/${totalContacts}] Skipping ${contactPhone}, message is no longer waiting to be sent`);
+      return { skipped: true };
+    }
+
+    // The contact may have opted out after the campaign was queued
+    if (await suppressionService.isSuppressed(userId, contactPhone, phoneService.getDefaultCountry(userSettings))) {
+      await warmupService.releaseSend(reservation.number, reservation.settings, reservation.at);
+      reservation = null;
+      await Message.findByIdAndUpdate(messageId, {
+        status: 'cancelled',
+        errorMessage: 'Recipient opted out'
+      });
+
+      const bulkMsg = await BulkMessage.findByIdAndUpdate(
+        bulkMessageId,
+        { $inc: { 'progress.cancelled': 1, 'progress.pending': -1 } },
+        { new: true }
+      );
+      if (bulkMsg && bulkMsg.progress.pending === 0) {
+        await BulkMessage.updateOne({ _id: bulkMessageId, status: 'processing' }, {
+          status: 'completed',
+          completedAt: new Date()
+        });
+      }
+
+      console.log(`🚫 [${contactIndex + 1}/${totalContacts}] Skipping ${contactPhone}, recipient opted out`);
+      return { suppressed: true };
+    }
+
+    const attachment = mediaId ? await mediaService.getAttachment(mediaId) : undefined;
+    if (attachment === null) {
+      throw new Error('Media attachment no longer exists');
+    }
 
     // Send WhatsApp message with timeout protection
-    const sendPromise = whatsappService.sendMessage(userId, contactPhone, message);
+    const sendPromise = whatsappService.sendMessage(userId, contactPhone, message, attachment);
     const timeoutPromise = new Promise<{ success: boolean; error: string }>((_, reject) => 
       setTimeout(() => reject(new Error('Message send timeout')), 30000)
     );
@@ -587,81 +1964,243 @@ messageQueue.process('send-message', 5, async (job) => {
       });
 
       // Update bulk message progress atomically
-      const bulkMsg = await BulkMessage.findByIdAndUpdate(
-        bulkMessageId, 
-        { $inc: { 'progress.sent': 1, 'progress.pending': -1 } },
-        { new: true }
+      const bulkMsg = await campaignTrackingService.incrementProgress(
+        bulkMessageId,
+        claimed.variant,
+        { 'progress.sent': 1, 'progress.pending': -1 }
       );
 
       // Check if campaign is complete
       if (bulkMsg && bulkMsg.progress.pending === 0) {
-        await BulkMessage.findByIdAndUpdate(bulkMessageId, {
+        await BulkMessage.updateOne({ _id: bulkMessageId, status: 'processing' }, {
           status: 'completed',
           completedAt: new Date()
         });
         console.log(`🎉 Campaign ${bulkMessageId} completed! Sent: ${bulkMsg.progress.sent}, Failed: ${bulkMsg.progress.failed}`);
       }
 
+      const decision = await throttleService.recordOutcome(bulkMessageId, userSettings);
+      if (decision) {
+        await applyThrottleDecision(bulkMessageId, userId, userSettings, decision);
+      }
+
     } else {
       const errorMessage = 'error' in result ? result.error : 'Unknown error';
       console.log(`❌ [${contactIndex + 1}/${totalContacts}] Failed: ${errorMessage}`);
       
-      // Update message as failed
-      await Message.findByIdAndUpdate(messageId, {
-        status: 'failed',
+      // Throw error to record the failure and trigger Bull retry mechanism
+      throw new Error(errorMessage);
+    }
+
+  } catch (error) {
+    console.error(`❌ Message processing error for ${contactPhone}:`, error);
+    
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Failed sends do not use up the number's daily allowance
+    if (reservation) {
+      await warmupService.releaseSend(reservation.number, reservation.settings, reservation.at);
+    }
+    
+    // Until Bull runs out of attempts the message waits for its retry, like any unsent message
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+    const failedMessage = await Message.findOneAndUpdate(
+      { _id: messageId, status: { $in: ['pending', 'retrying', 'processing'] } },
+      {
+        status: isFinalAttempt ? 'failed' : 'retrying',
         errorMessage,
         $inc: { retryCount: 1 }
-      });
+      }
+    );
 
-      // Update bulk message progress
-      const bulkMsg = await BulkMessage.findByIdAndUpdate(
+    // Only count the failure once Bull has no retries left for this job
+    if (isFinalAttempt && failedMessage) {
+      const bulkMsg = await campaignTrackingService.incrementProgress(
         bulkMessageId,
-        { $inc: { 'progress.failed': 1, 'progress.pending': -1 } },
-        { new: true }
+        failedMessage.variant,
+        { 'progress.failed': 1, 'progress.pending': -1 }
       );
 
       // Check if campaign is complete (even with failures)
       if (bulkMsg && bulkMsg.progress.pending === 0) {
-        await BulkMessage.findByIdAndUpdate(bulkMessageId, {
+        await BulkMessage.updateOne({ _id: bulkMessageId, status: 'processing' }, {
           status: 'completed',
           completedAt: new Date()
         });
-        console.log(`🎉 Campaign ${bulkMessageId} completed with some failures. Sent: ${bulkMsg.progress.sent}, Failed: ${bulkMsg.progress.failed}`);
+        console.log(`🎉 Campaign ${bulkMessageId} completed (with errors). Sent: ${bulkMsg.progress.sent}, Failed: ${bulkMsg.progress.failed}`);
       }
-      
-      // Throw error to trigger Bull retry mechanism
-      throw new Error(errorMessage);
     }
 
-  } catch (error) {
-    console.error(`❌ Message processing error for ${contactPhone}:`, error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // Clustered failures slow the campaign down or pause it; the message status above is already settled
+    try {
+      const decision = await throttleService.recordOutcome(bulkMessageId, userSettings, errorMessage);
+      if (decision) {
+        await applyThrottleDecision(bulkMessageId, userId, userSettings, decision, messageId);
+      }
+    } catch (throttleError) {
+      console.error(`Throttling update failed for campaign ${bulkMessageId}:`, throttleError);
+    }
     
-    await Message.findByIdAndUpdate(messageId, {
-      status: 'failed',
-      errorMessage,
-      $inc: { retryCount: 1 }
-    });
+    // Re-throw to let Bull handle retry logic
+    throw error;
+  }
+});
+
+// Release scheduled campaigns when their start time arrives
+messageQueue.process('start-campaign', 1, async (job) => {
+  const { bulkMessageId } = job.data;
+
+  const bulkMessage = await BulkMessage.findById(bulkMessageId);
+  if (!bulkMessage || bulkMessage.status !== 'scheduled') {
+    console.log(`⏭️ Skipping start of campaign ${bulkMessageId}, it is no longer scheduled`);
+    return { skipped: true };
+  }
+
+  const userId = bulkMessage.userId.toString();
+
+  if (!whatsappService.isConnected(userId)) {
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+    if (isFinalAttempt) {
+      const errorMessage = 'WhatsApp was not connected at the scheduled start time';
+
+      bulkMessage.status = 'failed';
+      bulkMessage.errorMessage = errorMessage;
+      await bulkMessage.save();
+
+      await Message.updateMany(
+        { bulkMessageId: bulkMessage._id, status: 'pending' },
+        { status: 'failed', errorMessage }
+      );
+      await recalculateProgress(bulkMessageId);
+    }
+
+    throw new Error(`WhatsApp is not connected for user ${userId}`);
+  }
+
+  const user = await User.findById(userId);
+  const pendingMessages = await Message.find({
+    bulkMessageId: bulkMessage._id,
+    status: 'pending',
+    awaitingWinner: { $ne: true }
+  })
+  .populate('contactId', 'phone')
+  .sort({ createdAt: 1 });
+
+  bulkMessage.status = 'processing';
+  bulkMessage.startedAt = new Date();
+  await bulkMessage.save();
+
+  const projectedCompletionAt = await enqueueCampaignMessages(
+    bulkMessageId,
+    userId,
+    pendingMessages.map(msg => ({
+      messageId: msg._id.toString(),
+      contactPhone: (msg.contactId as any)?.phone,
+      message: msg.aiRewrittenMessage
+    })),
+    user?.settings || {}
+  );
+
+  if (bulkMessage.abTest?.mode === 'winner') {
+    await scheduleWinnerDecision(bulkMessageId, projectedCompletionAt, bulkMessage.abTest.waitHours);
+  }
+
+  console.log(`🚀 Scheduled campaign ${bulkMessageId} started with ${pendingMessages.length} messages`);
+});
+
+// Pick the winning A/B variant from the test cohort and send it to everyone held back
+messageQueue.process('decide-ab-winner', 1, async (job) => {
+  const { bulkMessageId } = job.data;
+
+  const bulkMessage = await BulkMessage.findById(bulkMessageId);
+  if (!bulkMessage || !bulkMessage.abTest || bulkMessage.abTest.winnerKey ||
+      ['completed', 'failed', 'cancelled'].includes(bulkMessage.status)) {
+    return { skipped: true };
+  }
+
+  const waitHours = bulkMessage.abTest.waitHours || 4;
+
+  // Wait for the whole test cohort to go out (pauses and sending windows can delay it)
+  const unsentTestMessages = await Message.countDocuments({
+    bulkMessageId,
+    awaitingWinner: { $ne: true },
+    status: { $in: ['pending', 'processing', 'retrying', 'paused'] }
+  });
+  if (bulkMessage.status === 'paused' || unsentTestMessages > 0) {
+    const lastTestSendAt = bulkMessage.status === 'paused' ? null : bulkMessage.projectedCompletionAt;
+    await scheduleWinnerDecision(bulkMessageId, lastTestSendAt, bulkMessage.status === 'paused' ? 1 : waitHours);
+    return { rescheduled: true };
+  }
+
+  await recalculateProgress(bulkMessageId);
+  const tested = await BulkMessage.findById(bulkMessageId);
+  const winnerKey = abTestService.pickWinner(tested) || tested.variants[0].key;
+  const winner = tested.variants.find(variant => variant.key === winnerKey);
+
+  // Claim the decision so a duplicate job cannot apply it twice
+  const decided = await BulkMessage.findOneAndUpdate(
+    { _id: bulkMessageId, 'abTest.winnerKey': { $exists: false } },
+    { 'abTest.winnerKey': winnerKey, 'abTest.decidedAt': new Date() },
+    { new: true }
+  );
+  if (!decided) {
+    return { skipped: true };
+  }
 
-    const bulkMsg = await BulkMessage.findByIdAndUpdate(
+  const heldMessages = await Message.find({ bulkMessageId, awaitingWinner: true })
+    .populate('contactId', 'name phone')
+    .sort({ createdAt: 1 });
+
+  for (let i = 0; i < heldMessages.length; i++) {
+    const msg = heldMessages[i];
+    const personalizedMessage = winner.aiRewrittenMessage
+      ? await aiService.generatePersonalizedMessage(
+        winner.aiRewrittenMessage,
+        (msg.contactId as any)?.name || '',
+        (i % 20) + 1,
+        decided.category
+      )
+      : '';
+
+    await Message.updateOne(
+      { _id: msg._id },
+      {
+        $set: { variant: winnerKey, originalMessage: winner.message, aiRewrittenMessage: personalizedMessage },
+        $unset: { awaitingWinner: 1 }
+      }
+    );
+    msg.aiRewrittenMessage = personalizedMessage;
+  }
+
+  console.log(`🏆 Variant ${winnerKey} won the A/B test of campaign ${bulkMessageId}, sending it to ${heldMessages.length} remaining contacts`);
+
+  // A campaign paused meanwhile picks the held messages up on resume
+  if (decided.status === 'processing') {
+    const userId = decided.userId.toString();
+    const user = await User.findById(userId).select('settings');
+    const toSend = heldMessages.filter(msg => msg.status === 'pending');
+
+    await enqueueCampaignMessages(
       bulkMessageId,
-      { $inc: { 'progress.failed': 1, 'progress.pending': -1 } },
-      { new: true }
+      userId,
+      toSend.map(msg => ({
+        messageId: msg._id.toString(),
+        contactPhone: (msg.contactId as any)?.phone,
+        message: msg.aiRewrittenMessage
+      })),
+      user?.settings || {}
     );
+  }
 
-    // Check if campaign is complete (even with failures in catch block)
-    if (bulkMsg && bulkMsg.progress.pending === 0) {
-      await BulkMessage.findByIdAndUpdate(bulkMessageId, {
-        status: 'completed',
-        completedAt: new Date()
-      });
-      console.log(`🎉 Campaign ${bulkMessageId} completed (with errors). Sent: ${bulkMsg.progress.sent}, Failed: ${bulkMsg.progress.failed}`);
-    }
-    
-    // Re-throw to let Bull handle retry logic
-    throw error;
+  const progress = await recalculateProgress(bulkMessageId);
+  if (progress && progress.pending === 0) {
+    await BulkMessage.updateOne(
+      { _id: bulkMessageId, status: 'processing' },
+      { status: 'completed', completedAt: new Date() }
+    );
   }
+
+  return { winnerKey, remaining: heldMessages.length };
 });
 
 // Queue event handlers for monitoring
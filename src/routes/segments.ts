@@ -0,0 +1,370 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import Segment, { CAMPAIGN_CONDITIONS, FIELD_OPERATORS, ISegmentFilters } from '../models/Segment';
+import BulkMessage from '../models/BulkMessage';
+import segmentService from '../services/segmentService';
+
+const router = Router();
+
+const objectIdSchema = z.string().refine(id => mongoose.Types.ObjectId.isValid(id), 'Invalid ID');
+
+// Segment filter validation schema
+const filtersSchema = z.object({
+  categories: z.array(z.enum(['general', 'vip', 'customer', 'lead', 'partner', 'other'])).optional(),
+  tags: z.array(z.string().trim().toLowerCase().min(1)).max(50).optional(),
+  tagMatch: z.enum(['any', 'all']).optional(),
+  excludeTags: z.array(z.string().trim().toLowerCase().min(1)).max(50).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  engagedWithinDays: z.number().int().min(1).max(3650).optional(),
+  notEngagedWithinDays: z.number().int().min(1).max(3650).optional(),
+  minEngagementScore: z.number().min(0).max(100).optional(),
+  maxEngagementScore: z.number().min(0).max(100).optional(),
+  campaigns: z.array(z.object({
+    bulkMessageId: objectIdSchema,
+    condition: z.enum(CAMPAIGN_CONDITIONS),
+  })).max(10).optional(),
+  customFields: z.array(z.object({
+    key: z.string().min(1),
+    operator: z.enum(FIELD_OPERATORS),
+    value: z.any().optional(),
+  })).max(20).optional(),
+  optOut: z.enum(['exclude', 'include', 'only']).optional(),
+}).refine(
+  filters => filters.minEngagementScore === undefined || filters.maxEngagementScore === undefined || filters.minEngagementScore <= filters.maxEngagementScore,
+  'minEngagementScore cannot be greater than maxEngagementScore'
+);
+
+const segmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  filters: filtersSchema.default({}),
+});
+
+// Campaign conditions may only refer to the user's own campaigns, field filters to their own fields
+const findFilterError = async (userId: string, filters: z.infer<typeof filtersSchema>): Promise<string | null> => {
+  const ids = Array.from(new Set((filters.campaigns || []).map(campaign => campaign.bulkMessageId)));
+  if (ids.length > 0) {
+    const found = await BulkMessage.find({ _id: { $in: ids }, userId }).select('_id');
+    const foundIds = found.map(campaign => campaign._id.toString());
+    const unknown = ids.find(id => !foundIds.includes(id));
+    if (unknown) return `Campaign ${unknown} not found`;
+  }
+
+  return segmentService.validateFieldFilters(userId, filters as ISegmentFilters);
+};
+
+// Count and a sample of the contacts currently matching the filters
+const previewFilters = async (userId: string, filters: ISegmentFilters, sampleSize: number) => {
+  const contacts = await segmentService.evaluate(userId, filters);
+  return {
+    count: contacts.length,
+    sample: contacts.slice(0, sampleSize).map(contact => ({
+      id: contact._id,
+      name: contact.name,
+      phone: contact.phone,
+      category: contact.category,
+      tags: contact.tags
+    }))
+  };
+};
+
+const parseSampleSize = (value: any): number =>
+  Math.min(Math.max(parseInt(value as string) || 10, 1), 50);
+
+// @route   GET /api/segments
+// @desc    Get saved segments for the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const segments = await Segment.find({ userId: user._id }).sort({ updatedAt: -1 });
+
+    res.json({
+      success: true,
+      data: { segments }
+    });
+
+  } catch (error) {
+    console.error('Get segments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/segments/preview
+// @desc    Preview unsaved filters: matching count and a sample of contacts
+// @access  Private
+router.post('/preview', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const filters = filtersSchema.parse(req.body.filters || {});
+
+    const filterError = await findFilterError(user._id.toString(), filters);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
+    }
+
+    const preview = await previewFilters(user._id.toString(), filters as ISegmentFilters, parseSampleSize(req.body.sampleSize));
+
+    res.json({
+      success: true,
+      data: preview
+    });
+
+  } catch (error) {
+    console.error('Preview segment filters error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid segment filters',
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/segments/:id
+// @desc    Get a single segment
+// @access  Private
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const segment = await Segment.findOne({ _id: req.params.id, userId: user._id });
+
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Segment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { segment }
+    });
+
+  } catch (error) {
+    console.error('Get segment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/segments/:id/preview
+// @desc    Evaluate a saved segment now: matching count and a sample of contacts
+// @access  Private
+router.get('/:id/preview', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const segment = await Segment.findOne({ _id: req.params.id, userId: user._id });
+
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Segment not found'
+      });
+    }
+
+    const preview = await previewFilters(user._id.toString(), segment.filters, parseSampleSize(req.query.sampleSize));
+
+    segment.lastCount = preview.count;
+    segment.lastEvaluatedAt = new Date();
+    await segment.save();
+
+    res.json({
+      success: true,
+      data: preview
+    });
+
+  } catch (error) {
+    console.error('Preview segment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/segments
+// @desc    Create a segment from saved filters
+// @access  Private
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = segmentSchema.parse(req.body);
+
+    const existing = await Segment.findOne({ userId: user._id, name: data.name });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'A segment with this name already exists'
+      });
+    }
+
+    const filterError = await findFilterError(user._id.toString(), data.filters);
+    if (filterError) {
+      return res.status(400).json({
+        success: false,
+        message: filterError
+      });
+    }
+
+    const segment = await Segment.create({
+      userId: user._id,
+      name: data.name,
+      description: data.description,
+      filters: data.filters
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Segment created successfully',
+      data: { segment }
+    });
+
+  } catch (error) {
+    console.error('Create segment error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid segment data',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   PUT /api/segments/:id
+// @desc    Update a segment's name, description or filters
+// @access  Private
+router.put('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = segmentSchema.partial().parse(req.body);
+
+    const segment = await Segment.findOne({ _id: req.params.id, userId: user._id });
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Segment not found'
+      });
+    }
+
+    if (data.name && data.name !== segment.name) {
+      const existing = await Segment.findOne({ userId: user._id, name: data.name, _id: { $ne: segment._id } });
+      if (existing) {
+        return res.status(400).json({
+          success: false,
+          message: 'A segment with this name already exists'
+        });
+      }
+      segment.name = data.name;
+    }
+
+    if (data.description !== undefined) segment.description = data.description;
+
+    if (data.filters) {
+      const filterError = await findFilterError(user._id.toString(), data.filters);
+      if (filterError) {
+        return res.status(400).json({
+          success: false,
+          message: filterError
+        });
+      }
+      segment.set('filters', data.filters);
+      segment.lastCount = undefined;
+      segment.lastEvaluatedAt = undefined;
+    }
+
+    await segment.save();
+
+    res.json({
+      success: true,
+      message: 'Segment updated successfully',
+      data: { segment }
+    });
+
+  } catch (error) {
+    console.error('Update segment error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid segment data',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/segments/:id
+// @desc    Delete a segment
+// @access  Private
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const segment = await Segment.findOneAndDelete({ _id: req.params.id, userId: user._id });
+
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Segment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Segment deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete segment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -3,9 +3,14 @@ import { authenticate } from '../middleware/auth';
 import { z } from 'zod';
 import User from '../models/User';
 import redis from '../config/redis';
+import schedulingService, { DAY_NAMES, DEFAULT_SENDING_WINDOW } from '../services/schedulingService';
+import { DEFAULT_WARMUP_POLICY } from '../services/warmupService';
+import phoneService from '../services/phoneService';
 
 const router = Router();
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
 // Settings validation schema
 const settingsSchema = z.object({
   messageDelay: z.number().min(1).max(60).optional(),
@@ -27,7 +32,27 @@ const settingsSchema = z.object({
     bulkComplete: z.boolean().optional(),
     whatsappDisconnected: z.boolean().optional(),
   }).optional(),
-  timezone: z.string().optional(),
+  timezone: z.string().refine(tz => schedulingService.isValidTimeZone(tz), 'Unknown timezone').optional(),
+  defaultCountry: z.string().toUpperCase().refine(country => phoneService.isSupportedCountry(country), 'Unsupported country').optional(),
+  sendingWindow: z.object({
+    enabled: z.boolean(),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    blockedDays: z.array(z.enum(DAY_NAMES as [string, ...string[]])).max(6).default([]),
+  }).refine(window => window.start < window.end, 'Sending window start must be before its end').optional(),
+  replyAttributionWindow: z.number().min(1).max(720).optional(), // Hours
+  warmup: z.object({
+    enabled: z.boolean(),
+    startCap: z.number().int().min(1).max(10000),
+    targetCap: z.number().int().min(1).max(10000),
+    rampDays: z.number().int().min(1).max(90),
+  }).refine(warmup => warmup.startCap <= warmup.targetCap, 'Warm-up start cap cannot exceed the target cap').optional(),
+  adaptiveThrottling: z.object({
+    enabled: z.boolean(),
+    slowDownFailureRate: z.number().min(5).max(100), // Percent of recent sends
+    pauseFailureRate: z.number().min(5).max(100),
+  }).refine(throttling => throttling.slowDownFailureRate <= throttling.pauseFailureRate, 'Slow-down rate cannot exceed the pause rate').optional(),
+  optOutConfirmationMessage: z.string().min(1).max(500).optional(),
   dateFormat: z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD']).optional(),
   timeFormat: z.enum(['12h', '24h']).optional(),
   currency: z.string().optional(),
@@ -82,6 +107,15 @@ router.get('/', authenticate, async (req: Request, res: Response) => {
         whatsappDisconnected: true,
       },
       timezone: 'Asia/Kolkata',
+      defaultCountry: 'IN',
+      sendingWindow: { ...DEFAULT_SENDING_WINDOW },
+      replyAttributionWindow: 72,
+      warmup: { ...DEFAULT_WARMUP_POLICY },
+      adaptiveThrottling: {
+        enabled: true,
+        slowDownFailureRate: 20,
+        pauseFailureRate: 50,
+      },
       dateFormat: 'DD/MM/YYYY',
       timeFormat: '24h',
       currency: 'INR',
@@ -193,6 +227,15 @@ router.post('/reset', authenticate, async (req: Request, res: Response) => {
         whatsappDisconnected: true,
       },
       timezone: 'Asia/Kolkata',
+      defaultCountry: 'IN',
+      sendingWindow: { ...DEFAULT_SENDING_WINDOW },
+      replyAttributionWindow: 72,
+      warmup: { ...DEFAULT_WARMUP_POLICY },
+      adaptiveThrottling: {
+        enabled: true,
+        slowDownFailureRate: 20,
+        pauseFailureRate: 50,
+      },
       dateFormat: 'DD/MM/YYYY',
       timeFormat: '24h',
       currency: 'INR',
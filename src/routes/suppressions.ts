@@ -0,0 +1,296 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import Suppression from '../models/Suppression';
+import suppressionService from '../services/suppressionService';
+import phoneService from '../services/phoneService';
+import multer from 'multer';
+import XLSX from 'xlsx';
+import mongoose from 'mongoose';
+
+const router = Router();
+
+// Configure multer for suppression list imports
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+        file.mimetype === 'application/vnd.ms-excel' ||
+        file.mimetype === 'text/csv') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only Excel and CSV files are allowed'));
+    }
+  }
+});
+
+// @route   GET /api/suppressions
+// @desc    Get the suppression list for the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { page = 1, limit = 50, search = '', reason } = req.query;
+
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const query: any = { userId: user._id };
+    if (reason) {
+      query.reason = reason;
+    }
+    if (search) {
+      query.phone = { $regex: (search as string).replace(/\D/g, '') };
+    }
+
+    const suppressions = await Suppression.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limitNum);
+
+    const total = await Suppression.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: {
+        suppressions,
+        pagination: {
+          currentPage: pageNum,
+          totalPages: Math.ceil(total / limitNum),
+          totalSuppressions: total,
+          hasNext: pageNum < Math.ceil(total / limitNum),
+          hasPrev: pageNum > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get suppressions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/suppressions
+// @desc    Add a number to the suppression list
+// @access  Private
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { phone, note } = req.body;
+
+    const defaultCountry = phoneService.getDefaultCountry(user.settings);
+    const normalized = phoneService.normalize(phone, defaultCountry);
+    if (!normalized.phone) {
+      return res.status(400).json({
+        success: false,
+        message: normalized.error
+      });
+    }
+
+    const existing = await suppressionService.findSuppression(user._id.toString(), normalized.phone.e164, defaultCountry);
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'This phone number is already suppressed'
+      });
+    }
+
+    const suppression = new Suppression({
+      userId: user._id,
+      phone: normalized.phone.e164,
+      reason: 'manual',
+      note
+    });
+
+    await suppression.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Phone number added to suppression list',
+      data: { suppression }
+    });
+
+  } catch (error) {
+    console.error('Add suppression error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   PUT /api/suppressions/:id
+// @desc    Update the note on a suppression entry
+// @access  Private
+router.put('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { note } = req.body;
+
+    const suppression = await Suppression.findOne({ _id: id, userId: user._id });
+
+    if (!suppression) {
+      return res.status(404).json({
+        success: false,
+        message: 'Suppression entry not found'
+      });
+    }
+
+    suppression.note = note || undefined;
+    await suppression.save();
+
+    res.json({
+      success: true,
+      message: 'Suppression entry updated successfully',
+      data: { suppression }
+    });
+
+  } catch (error) {
+    console.error('Update suppression error:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/suppressions/:id
+// @desc    Remove a number from the suppression list so it can be messaged again
+// @access  Private
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const suppression = await Suppression.findOneAndDelete({ _id: id, userId: user._id });
+
+    if (!suppression) {
+      return res.status(404).json({
+        success: false,
+        message: 'Suppression entry not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Phone number removed from suppression list'
+    });
+
+  } catch (error) {
+    console.error('Delete suppression error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/suppressions/import
+// @desc    Import suppressed numbers from Excel/CSV file
+// @access  Private
+router.post('/import', authenticate, upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded'
+      });
+    }
+
+    const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data = XLSX.utils.sheet_to_json(worksheet);
+
+    if (data.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'File is empty or invalid format'
+      });
+    }
+
+    const defaultCountry = phoneService.getDefaultCountry(user.settings);
+    const existingKeys = await suppressionService.getSuppressedKeys(user._id.toString(), defaultCountry);
+    const suppressions = [];
+    const errors = [];
+
+    for (let i = 0; i < data.length; i++) {
+      const row = data[i] as any;
+      const phone = row.Phone || row.phone || row.PHONE || row['Phone Number'] || row.Number || '';
+      const note = row.Note || row.note || row.Reason || row.reason || '';
+      const key = suppressionService.getPhoneKey(phone, defaultCountry);
+
+      if (!key) {
+        errors.push({
+          row: i + 1,
+          error: 'Invalid phone number format'
+        });
+        continue;
+      }
+
+      if (existingKeys.has(key)) {
+        errors.push({
+          row: i + 1,
+          error: 'Phone number already suppressed'
+        });
+        continue;
+      }
+      existingKeys.add(key);
+
+      suppressions.push({
+        userId: user._id,
+        phone: key,
+        reason: 'import',
+        note: note ? note.toString().trim().substring(0, 500) : undefined
+      });
+    }
+
+    if (suppressions.length > 0) {
+      await Suppression.insertMany(suppressions, { ordered: false });
+    }
+
+    res.json({
+      success: true,
+      message: `Import completed. ${suppressions.length} numbers added to the suppression list.`,
+      data: {
+        totalProcessed: data.length,
+        successCount: suppressions.length,
+        errorCount: errors.length,
+        errors: errors.slice(0, 10) // Return first 10 errors
+      }
+    });
+
+  } catch (error) {
+    console.error('Import suppressions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during file import'
+    });
+  }
+});
+
+export default router;
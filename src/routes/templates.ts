@@ -0,0 +1,323 @@
+import { Router, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import MessageTemplate from '../models/MessageTemplate';
+import Contact from '../models/Contact';
+import templateService from '../services/templateService';
+
+const router = Router();
+
+const CATEGORIES = ['promotional', 'notification', 'advertising', 'discount_offer', 'information', 'other'] as const;
+
+const variableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Variable names may only contain letters, numbers and underscores'),
+  defaultValue: z.string().max(500).optional(),
+  required: z.boolean().optional(),
+});
+
+// Template validation schema
+const templateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  body: z.string().min(1, 'Template body is required').max(4096),
+  category: z.enum(CATEGORIES).optional(),
+  variables: z.array(variableSchema).max(50).optional(),
+});
+
+// @route   GET /api/templates
+// @desc    Get message templates for the authenticated user
+// @access  Private
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { category, search = '' } = req.query;
+
+    const query: any = { userId: user._id };
+    if (category) {
+      query.category = category;
+    }
+    if (search) {
+      query.name = { $regex: search, $options: 'i' };
+    }
+
+    const templates = await MessageTemplate.find(query).sort({ updatedAt: -1 });
+
+    res.json({
+      success: true,
+      data: { templates }
+    });
+
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   GET /api/templates/:id
+// @desc    Get a single message template
+// @access  Private
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const template = await MessageTemplate.findOne({ _id: req.params.id, userId: user._id });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { template }
+    });
+
+  } catch (error) {
+    console.error('Get template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/templates
+// @desc    Create a message template and run spam analysis on it
+// @access  Private
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = templateSchema.parse(req.body);
+
+    const existing = await MessageTemplate.findOne({ userId: user._id, name: data.name });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists'
+      });
+    }
+
+    const template = new MessageTemplate({
+      userId: user._id,
+      name: data.name,
+      body: data.body,
+      category: data.category || 'other',
+      variables: templateService.syncVariables(data.body, data.variables)
+    });
+
+    await templateService.analyze(template);
+    await template.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Template created successfully',
+      data: { template }
+    });
+
+  } catch (error) {
+    console.error('Create template error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid template data',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   PUT /api/templates/:id
+// @desc    Update a message template
+// @access  Private
+router.put('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const data = templateSchema.partial().parse(req.body);
+
+    const template = await MessageTemplate.findOne({ _id: req.params.id, userId: user._id });
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    if (data.name && data.name !== template.name) {
+      const existing = await MessageTemplate.findOne({ userId: user._id, name: data.name, _id: { $ne: template._id } });
+      if (existing) {
+        return res.status(400).json({
+          success: false,
+          message: 'A template with this name already exists'
+        });
+      }
+      template.name = data.name;
+    }
+
+    const needsAnalysis = (data.body !== undefined && data.body !== template.body) ||
+      (data.category !== undefined && data.category !== template.category);
+
+    if (data.body !== undefined) template.body = data.body;
+    if (data.category !== undefined) template.category = data.category;
+    template.variables = templateService.syncVariables(template.body, data.variables || template.variables);
+
+    if (needsAnalysis) {
+      await templateService.analyze(template);
+    }
+    await template.save();
+
+    res.json({
+      success: true,
+      message: 'Template updated successfully',
+      data: { template }
+    });
+
+  } catch (error) {
+    console.error('Update template error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid template data',
+        errors: error.errors
+      });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors)[0].message
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   DELETE /api/templates/:id
+// @desc    Delete a message template
+// @access  Private
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const template = await MessageTemplate.findOneAndDelete({ _id: req.params.id, userId: user._id });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// @route   POST /api/templates/:id/analyze
+// @desc    Re-run spam analysis on a template
+// @access  Private
+router.post('/:id/analyze', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const template = await MessageTemplate.findOne({ _id: req.params.id, userId: user._id });
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    const analysis = await templateService.analyze(template);
+    await template.save();
+
+    res.json({
+      success: true,
+      data: { analysis }
+    });
+
+  } catch (error) {
+    console.error('Analyze template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during analysis'
+    });
+  }
+});
+
+// @route   POST /api/templates/:id/render
+// @desc    Render a template for one contact to preview the result
+// @access  Private
+router.post('/:id/render', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const { contactId } = req.body;
+
+    const template = await MessageTemplate.findOne({ _id: req.params.id, userId: user._id });
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    const contact = contactId && mongoose.Types.ObjectId.isValid(contactId)
+      ? await Contact.findOne({ _id: contactId, userId: user._id })
+      : null;
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contact not found'
+      });
+    }
+
+    const shared = await templateService.getSharedContext(user._id.toString());
+    const result = templateService.render(template, templateService.getContactContext(contact, shared));
+
+    res.json({
+      success: true,
+      data: {
+        text: result.text,
+        missingVariables: result.missing
+      }
+    });
+
+  } catch (error) {
+    console.error('Render template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
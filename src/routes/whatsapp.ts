@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth';
 import User from '../models/User';
 import whatsappService from '../services/whatsappService';
+import warmupService from '../services/warmupService';
 
 const router = Router();
 
@@ -119,7 +120,8 @@ router.get('/status', authenticate, async (req: Request, res: Response) => {
             data: {
               isConnected: newStatus.isConnected,
               state: newStatus.state,
-              qr: null
+              qr: null,
+              warmup: await warmupService.getStatus(whatsappService.getConnectedNumber(userId), user.settings)
             }
           });
         }
@@ -156,7 +158,9 @@ router.get('/status', authenticate, async (req: Request, res: Response) => {
       data: {
         isConnected: status.isConnected,
         state: status.state,
-        qr: qr
+        qr: qr,
+        // Daily send cap of the connected number while it warms up
+        warmup: await warmupService.getStatus(whatsappService.getConnectedNumber(userId), user.settings)
       }
     });
 
@@ -25,10 +25,21 @@ import redis from './config/redis';
 import authRoutes from './routes/auth';
 import whatsappRoutes from './routes/whatsapp';
 import contactsRoutes from './routes/contacts';
-import messagesRoutes from './routes/messages';
+import messagesRoutes, { recoverScheduledCampaigns } from './routes/messages';
 import performanceRoutes from './routes/performance';
 import settingsRoutes from './routes/settings';
 import autoReplyRoutes from './routes/autoReply';
+import suppressionsRoutes from './routes/suppressions';
+import mediaRoutes from './routes/media';
+import templatesRoutes from './routes/templates';
+import segmentsRoutes from './routes/segments';
+import contactFieldsRoutes from './routes/contactFields';
+import contactImportsRoutes, { recoverContactImports } from './routes/contactImports';
+import contactVerificationRoutes from './routes/contactVerification';
+import contactDuplicatesRoutes from './routes/contactDuplicates';
+import contactExportRoutes from './routes/contactExport';
+import contactTimelineRoutes from './routes/contactTimeline';
+import contactEngagementRoutes, { scheduleEngagementScoring } from './routes/contactEngagement';
 
 // Import services
 // import whatsappService from './services/whatsappService'; // Moved to require below
@@ -212,11 +223,22 @@ app.get('/api/health', (req, res) => {
 // API routes
 app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/whatsapp', apiLimiter, whatsappRoutes);
+app.use('/api/contacts/imports', apiLimiter, contactImportsRoutes); // Mounted first so import state is never served from the contacts cache
+app.use('/api/contacts/verification', apiLimiter, contactVerificationRoutes);
+app.use('/api/contacts/duplicates', apiLimiter, contactDuplicatesRoutes);
+app.use('/api/contacts/export', apiLimiter, contactExportRoutes);
+app.use('/api/contacts/:id/timeline', apiLimiter, contactTimelineRoutes);
+app.use('/api/contacts/engagement', apiLimiter, contactEngagementRoutes);
 app.use('/api/contacts', apiLimiter, cacheMiddleware(300), contactsRoutes); // Cache for 5 minutes
 app.use('/api/messages', apiLimiter, messagesRoutes);
 app.use('/api/performance', performanceRoutes);
 app.use('/api/settings', apiLimiter, settingsRoutes);
 app.use('/api/auto-reply', apiLimiter, autoReplyRoutes);
+app.use('/api/suppressions', apiLimiter, suppressionsRoutes);
+app.use('/api/media', apiLimiter, mediaRoutes);
+app.use('/api/templates', apiLimiter, templatesRoutes);
+app.use('/api/segments', apiLimiter, segmentsRoutes);
+app.use('/api/contact-fields', apiLimiter, contactFieldsRoutes);
 
 
 // Socket.IO authentication middleware
@@ -438,6 +460,15 @@ const initializeServices = async () => {
     
     // Initialize WhatsApp service to restore connections
     await whatsappService.initialize();
+
+    // Make sure scheduled campaigns still have their start jobs queued
+    await recoverScheduledCampaigns();
+
+    // Resume contact imports that were interrupted by the restart
+    await recoverContactImports();
+
+    // Contact engagement scores are recomputed every night
+    await scheduleEngagementScoring();
     
     console.log('✅ All services initialized successfully');
   } catch (error) {
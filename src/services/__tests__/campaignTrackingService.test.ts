@@ -0,0 +1,124 @@
+import Message from '../../models/Message';
+import BulkMessage from '../../models/BulkMessage';
+import Contact from '../../models/Contact';
+import User from '../../models/User';
+import campaignTrackingService from '../campaignTrackingService';
+
+jest.mock('../../models/Message', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), findOneAndUpdate: jest.fn(), findByIdAndUpdate: jest.fn() }
+}));
+jest.mock('../../models/BulkMessage', () => ({
+  __esModule: true,
+  default: { findOneAndUpdate: jest.fn(), findByIdAndUpdate: jest.fn() }
+}));
+jest.mock('../../models/Contact', () => ({ __esModule: true, default: { find: jest.fn() } }));
+jest.mock('../../models/User', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+
+const messageModel = Message as any;
+const bulkMessageModel = BulkMessage as any;
+const contactModel = Contact as any;
+const userModel = User as any;
+
+describe('campaignTrackingService.classifyFailure', () => {
+  it.each([
+    ['Cancelled by user', 'cancelled'],
+    ['Recipient opted out', 'opted_out'],
+    ['WhatsApp not connected', 'not_connected'],
+    ['WhatsApp client not ready', 'not_connected'],
+    ['Message send timeout', 'timeout'],
+    ['Navigation timed out after 30000 ms', 'timeout'],
+    ['Invalid phone number format', 'invalid_number'],
+    ['Number is not registered on WhatsApp', 'invalid_number'],
+    ['Evaluation failed: Error: wid error: invalid wid', 'invalid_number'],
+    ['Evaluation failed: TypeError: Cannot read properties of undefined', 'evaluation_failed'],
+    ['Protocol error (Runtime.callFunctionOn): Session closed.', 'session_error'],
+    ['Target closed', 'session_error'],
+    ['Something unexpected', 'other']
+  ])('classifies "%s" as %s', (errorMessage, failureClass) => {
+    expect(campaignTrackingService.classifyFailure(errorMessage)).toBe(failureClass);
+  });
+
+  it('classifies a failure without a message as other', () => {
+    expect(campaignTrackingService.classifyFailure(undefined)).toBe('other');
+    expect(campaignTrackingService.classifyFailure('')).toBe('other');
+  });
+});
+
+describe('campaignTrackingService.recordReply', () => {
+  const RECEIVED_AT = new Date('2026-10-19T12:00:00Z');
+  const campaignMessage = { _id: 'message-1', bulkMessageId: 'campaign-1' };
+
+  beforeEach(() => {
+    contactModel.find.mockReturnValue({ select: jest.fn().mockResolvedValue([{ _id: 'contact-1' }]) });
+    userModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ settings: {} }) });
+    messageModel.findOne.mockReturnValue({ sort: jest.fn().mockResolvedValue(campaignMessage) });
+    bulkMessageModel.findByIdAndUpdate.mockResolvedValue({ progress: { replied: 1 } });
+  });
+
+  it('counts the first reply towards the campaign', async () => {
+    messageModel.findOneAndUpdate.mockResolvedValue({ ...campaignMessage, repliedAt: RECEIVED_AT, replyCount: 1 });
+
+    const update = await campaignTrackingService.recordReply('user-1', '919876543210@c.us', RECEIVED_AT);
+
+    expect(messageModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'message-1', repliedAt: { $exists: false } },
+      { $inc: { replyCount: 1 }, $set: { repliedAt: RECEIVED_AT } },
+      { new: true }
+    );
+    expect(bulkMessageModel.findByIdAndUpdate).toHaveBeenCalledWith('campaign-1', { $inc: { 'progress.replied': 1 } }, { new: true });
+    expect(update.bulkMessage).toEqual({ progress: { replied: 1 } });
+  });
+
+  it('only bumps the reply count once the message has a reply', async () => {
+    // Another reply set repliedAt first, so the conditional update matches nothing
+    messageModel.findOneAndUpdate.mockResolvedValue(null);
+    messageModel.findByIdAndUpdate.mockResolvedValue({ ...campaignMessage, replyCount: 2 });
+
+    const update = await campaignTrackingService.recordReply('user-1', '919876543210', RECEIVED_AT);
+
+    expect(messageModel.findByIdAndUpdate).toHaveBeenCalledWith('message-1', { $inc: { replyCount: 1 } }, { new: true });
+    expect(bulkMessageModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    expect(update).toEqual({ message: { ...campaignMessage, replyCount: 2 }, bulkMessage: null });
+  });
+
+  it('ignores messages from numbers without a recent campaign message', async () => {
+    messageModel.findOne.mockReturnValue({ sort: jest.fn().mockResolvedValue(null) });
+
+    expect(await campaignTrackingService.recordReply('user-1', '919876543210', RECEIVED_AT)).toBeNull();
+    expect(messageModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('campaignTrackingService.recordOptOut', () => {
+  const RECEIVED_AT = new Date('2026-10-19T12:00:00Z');
+  const campaignMessage = { _id: 'message-1', bulkMessageId: 'campaign-1' };
+
+  beforeEach(() => {
+    contactModel.find.mockReturnValue({ select: jest.fn().mockResolvedValue([{ _id: 'contact-1' }]) });
+    userModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ settings: {} }) });
+    messageModel.findOne.mockReturnValue({ sort: jest.fn().mockResolvedValue(campaignMessage) });
+    bulkMessageModel.findByIdAndUpdate.mockResolvedValue({ progress: { optedOut: 1 } });
+  });
+
+  it('counts an opt-out separately from replies', async () => {
+    messageModel.findOneAndUpdate.mockResolvedValue({ ...campaignMessage, optedOutAt: RECEIVED_AT });
+
+    const update = await campaignTrackingService.recordOptOut('user-1', '919876543210', RECEIVED_AT);
+
+    expect(messageModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'message-1', optedOutAt: { $exists: false } },
+      { $set: { optedOutAt: RECEIVED_AT } },
+      { new: true }
+    );
+    expect(bulkMessageModel.findByIdAndUpdate).toHaveBeenCalledWith('campaign-1', { $inc: { 'progress.optedOut': 1 } }, { new: true });
+    expect(update.message.optedOutAt).toEqual(RECEIVED_AT);
+  });
+
+  it('counts a repeated opt-out once', async () => {
+    messageModel.findOneAndUpdate.mockResolvedValue(null);
+
+    expect(await campaignTrackingService.recordOptOut('user-1', '919876543210', RECEIVED_AT)).toBeNull();
+    expect(bulkMessageModel.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
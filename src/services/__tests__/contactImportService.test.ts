@@ -0,0 +1,35 @@
+import XLSX from 'xlsx';
+import contactImportService from '../contactImportService';
+
+jest.mock('../../models/Contact', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/redis', () => ({ __esModule: true, default: {} }));
+jest.mock('../contactActivityService', () => ({ __esModule: true, default: {} }));
+jest.mock('../contactFieldService', () => ({ __esModule: true, default: {} }));
+
+const contactImport = {
+  rowErrors: [
+    { row: 2, name: '=HYPERLINK("http://example.com","Click")', phone: '+919876543210', error: 'Contact already exists' },
+    { row: 3, name: 'Asha', phone: '@SUM(1+1)', error: '-Invalid phone number' }
+  ]
+} as any;
+
+describe('contactImportService error report', () => {
+  it('quotes uploaded cells a spreadsheet would run as formulas in the CSV', () => {
+    const rows = contactImportService.errorsToCsv(contactImport).split('\n');
+
+    expect(rows[1]).toBe(`2,"'=HYPERLINK(""http://example.com"",""Click"")",+919876543210,Contact already exists`);
+    expect(rows[2]).toBe(`3,Asha,'@SUM(1+1),'-Invalid phone number`);
+  });
+
+  it('quotes uploaded cells a spreadsheet would run as formulas in the XLSX', () => {
+    const workbook = XLSX.read(contactImportService.errorsToXlsx(contactImport), { type: 'buffer' });
+    const sheet = workbook.Sheets['Rejected Rows'];
+
+    expect(XLSX.utils.sheet_to_json(sheet)).toEqual([
+      { Row: 2, Name: `'=HYPERLINK("http://example.com","Click")`, Phone: '+919876543210', Error: 'Contact already exists' },
+      { Row: 3, Name: 'Asha', Phone: "'@SUM(1+1)", Error: "'-Invalid phone number" }
+    ]);
+    // Written as text, not as a formula cell
+    expect(sheet.B2.f).toBeUndefined();
+  });
+});
@@ -0,0 +1,289 @@
+import Contact from '../../models/Contact';
+import ContactMerge from '../../models/ContactMerge';
+import Message from '../../models/Message';
+import ConversationState from '../../models/ConversationState';
+import ConversationHistory from '../../models/ConversationHistory';
+import contactMergeService from '../contactMergeService';
+
+jest.mock('../../models/Contact', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteMany: jest.fn(),
+    insertMany: jest.fn()
+  }
+}));
+
+jest.mock('../../models/ContactMerge', () => {
+  const ContactMerge: any = jest.fn(function (this: any, data: any) {
+    Object.assign(this, data);
+    this.save = jest.fn().mockResolvedValue(this);
+  });
+  ContactMerge.findOne = jest.fn();
+  ContactMerge.findOneAndUpdate = jest.fn();
+  return { __esModule: true, default: ContactMerge };
+});
+
+jest.mock('../../models/Message', () => ({
+  __esModule: true,
+  default: { find: jest.fn(), updateMany: jest.fn() }
+}));
+
+jest.mock('../../models/ConversationHistory', () => ({
+  __esModule: true,
+  default: { find: jest.fn(), updateMany: jest.fn() }
+}));
+
+jest.mock('../../models/ConversationState', () => ({
+  __esModule: true,
+  default: { exists: jest.fn(), findOne: jest.fn(), updateOne: jest.fn(), insertMany: jest.fn() }
+}));
+
+jest.mock('../contactActivityService', () => ({
+  __esModule: true,
+  default: { diff: jest.fn(() => []), record: jest.fn() }
+}));
+
+const contactModel = Contact as any;
+const mergeModel = ContactMerge as any;
+const messageModel = Message as any;
+const historyModel = ConversationHistory as any;
+const stateModel = ConversationState as any;
+
+const USER_ID = 'user-1';
+
+// A contact document with the parts of the mongoose API the service uses
+const contactDoc = (fields: any) => {
+  const doc: any = {
+    tags: [],
+    category: 'general',
+    ...fields,
+    customFields: new Map(Object.entries(fields.customFields || {})),
+    save: jest.fn().mockResolvedValue(undefined)
+  };
+  doc.toObject = () => ({
+    _id: doc._id,
+    name: doc.name,
+    phone: doc.phone,
+    email: doc.email,
+    category: doc.category,
+    tags: [...doc.tags],
+    customFields: Object.fromEntries(doc.customFields)
+  });
+  return doc;
+};
+
+// Query results that are awaited directly or after .distinct(), .select() or .sort()
+const query = (result: any) => ({
+  sort: jest.fn().mockResolvedValue(result),
+  select: jest.fn().mockResolvedValue(result),
+  distinct: jest.fn().mockResolvedValue(result),
+  then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+});
+
+describe('contactMergeService.findDuplicates', () => {
+  const duplicatesOf = async (contacts: any[]) => {
+    contactModel.find.mockReturnValue(query(contacts));
+    return contactMergeService.findDuplicates(USER_ID, 'IN');
+  };
+
+  it('groups contacts with the same number in different formats', async () => {
+    const groups = await duplicatesOf([
+      { _id: 'a', name: 'Asha', phone: '98765 43210' },
+      { _id: 'b', name: 'Asha K', phone: '+91 98765-43210' },
+      { _id: 'c', name: 'Vikram', phone: '9876500000' }
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].reasons).toEqual(['phone']);
+    expect(groups[0].contacts.map(contact => contact._id)).toEqual(['a', 'b']);
+  });
+
+  it('groups the same email regardless of case', async () => {
+    const groups = await duplicatesOf([
+      { _id: 'a', name: 'Asha', phone: '9876543210', email: 'asha@example.com' },
+      { _id: 'b', name: 'Asha', phone: '9876543211', email: ' Asha@Example.com ' }
+    ]);
+
+    expect(groups.map(group => group.reasons)).toEqual([['email']]);
+  });
+
+  it('groups nearly identical full names but not bare first names', async () => {
+    const groups = await duplicatesOf([
+      { _id: 'a', name: 'Rahul Sharma', phone: '9876543210' },
+      { _id: 'b', name: 'sharma  rahul', phone: '9876543211' },
+      { _id: 'c', name: 'Rahul Sharmaa', phone: '9876543212' },
+      { _id: 'd', name: 'Rahul', phone: '9876543213' },
+      { _id: 'e', name: 'rahul', phone: '9876543214' }
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].reasons).toEqual(['name']);
+    expect(groups[0].contacts.map(contact => contact._id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('joins contacts linked through different details into one group', async () => {
+    const groups = await duplicatesOf([
+      { _id: 'a', name: 'Asha', phone: '9876543210' },
+      { _id: 'b', name: 'Asha K', phone: '09876543210', email: 'asha@example.com' },
+      { _id: 'c', name: 'A. K.', phone: '9000000000', email: 'ASHA@example.com' },
+      { _id: 'd', name: 'Vikram Rao', phone: '9111111111', email: 'vikram@example.com' },
+      { _id: 'e', name: 'Vikram', phone: '9111111111' }
+    ]);
+
+    expect(groups.map(group => group.contacts.map(contact => contact._id))).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+    expect(groups[0].reasons.sort()).toEqual(['email', 'phone']);
+    // The oldest contact is suggested to keep
+    expect(groups[0].suggestedSurvivorId).toBe('a');
+  });
+});
+
+describe('contactMergeService.merge', () => {
+  const survivor = () => contactDoc({
+    _id: 'survivor',
+    name: 'Asha',
+    phone: '+919876543210',
+    tags: ['vip'],
+    customFields: { city: 'Pune' }
+  });
+  const duplicate = () => contactDoc({
+    _id: 'duplicate',
+    name: 'Asha K',
+    phone: '+919800000000',
+    email: 'asha@example.com',
+    category: 'customer',
+    tags: ['vip', 'newsletter'],
+    customFields: { city: 'Mumbai', plan: 'gold' }
+  });
+
+  beforeEach(() => {
+    messageModel.find.mockReturnValue(query(['message-1']));
+    historyModel.find.mockReturnValue(query(['history-1']));
+    stateModel.exists.mockResolvedValue(null);
+    stateModel.findOne.mockResolvedValue({ _id: 'state-1' });
+  });
+
+  it('needs a contact besides the survivor', async () => {
+    expect(await contactMergeService.merge(USER_ID, 'survivor', ['survivor'], 'IN')).toEqual({
+      error: 'Select at least one contact to merge into the survivor',
+      status: 400
+    });
+  });
+
+  it('refuses a missing survivor or duplicate', async () => {
+    contactModel.findOne.mockResolvedValue(null);
+    expect((await contactMergeService.merge(USER_ID, 'survivor', ['duplicate'], 'IN')).status).toBe(404);
+
+    contactModel.findOne.mockResolvedValue(survivor());
+    contactModel.find.mockReturnValue(query([]));
+    expect((await contactMergeService.merge(USER_ID, 'survivor', ['duplicate'], 'IN')).status).toBe(400);
+  });
+
+  it('combines the details, moves history to the survivor and records what changed', async () => {
+    const kept = survivor();
+    contactModel.findOne.mockResolvedValue(kept);
+    contactModel.find.mockReturnValue(query([duplicate()]));
+
+    const { merge, error } = await contactMergeService.merge(USER_ID, 'survivor', ['duplicate', 'duplicate'], 'IN');
+
+    expect(error).toBeUndefined();
+    expect(kept.tags).toEqual(['vip', 'newsletter']);
+    expect(kept.email).toBe('asha@example.com');
+    expect(kept.category).toBe('customer');
+    expect(Object.fromEntries(kept.customFields)).toEqual({ city: 'Pune', plan: 'gold' });
+    expect(kept.save).toHaveBeenCalled();
+
+    expect(messageModel.updateMany).toHaveBeenCalledWith({ _id: { $in: ['message-1'] } }, { contactId: 'survivor' });
+    expect(historyModel.updateMany).toHaveBeenCalledWith({ _id: { $in: ['history-1'] } }, { customerPhone: '919876543210' });
+    expect(stateModel.updateOne).toHaveBeenCalledWith({ _id: 'state-1' }, { customerPhone: '919876543210' });
+    expect(contactModel.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['duplicate'] }, userId: USER_ID });
+
+    expect(merge.survivorBefore).toMatchObject({ tags: ['vip'], category: 'general', email: undefined });
+    expect(merge.repointed).toEqual({
+      messages: [{ contactId: 'duplicate', messageIds: ['message-1'] }],
+      histories: [{ customerPhone: '919800000000', historyIds: ['history-1'] }],
+      states: [{ stateId: 'state-1', customerPhone: '919800000000' }]
+    });
+    expect(merge.save).toHaveBeenCalled();
+  });
+
+  it("keeps the survivor's own conversation state", async () => {
+    contactModel.findOne.mockResolvedValue(survivor());
+    contactModel.find.mockReturnValue(query([duplicate()]));
+    stateModel.exists.mockResolvedValue({ _id: 'survivor-state' });
+    const removed = { _id: 'state-1', toObject: () => ({ _id: 'state-1' }), deleteOne: jest.fn() };
+    stateModel.findOne.mockResolvedValue(removed);
+
+    const { merge } = await contactMergeService.merge(USER_ID, 'survivor', ['duplicate'], 'IN');
+
+    expect(removed.deleteOne).toHaveBeenCalled();
+    expect(merge.removedStates).toEqual([{ _id: 'state-1' }]);
+    expect(merge.repointed.states).toEqual([]);
+  });
+});
+
+describe('contactMergeService.undo', () => {
+  const mergeRecord = (overrides: any = {}) => ({
+    _id: 'merge-1',
+    status: 'merged',
+    survivorId: 'survivor',
+    undoExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    survivorBefore: { tags: ['vip'], category: 'general', customFields: { city: 'Pune' } },
+    mergedContacts: [{ _id: 'duplicate', phone: '+919800000000' }],
+    repointed: {
+      messages: [{ contactId: 'duplicate', messageIds: ['message-1'] }],
+      histories: [{ customerPhone: '919800000000', historyIds: ['history-1'] }],
+      states: [{ stateId: 'state-1', customerPhone: '919800000000' }]
+    },
+    removedStates: [{ _id: 'state-2' }],
+    ...overrides
+  });
+
+  it('refuses merges that were undone or are past the undo window', async () => {
+    mergeModel.findOne.mockResolvedValue(mergeRecord({ status: 'undone' }));
+    expect(await contactMergeService.undo(USER_ID, 'merge-1')).toEqual({ error: 'This merge has already been undone', status: 400 });
+
+    mergeModel.findOne.mockResolvedValue(mergeRecord({ undoExpiresAt: new Date(Date.now() - 1000) }));
+    expect((await contactMergeService.undo(USER_ID, 'merge-1')).status).toBe(400);
+  });
+
+  it('refuses when a removed number was added again since', async () => {
+    mergeModel.findOne.mockResolvedValue(mergeRecord());
+    contactModel.find.mockReturnValue(query([{ phone: '+919800000000' }]));
+
+    expect((await contactMergeService.undo(USER_ID, 'merge-1')).status).toBe(409);
+    expect(mergeModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('brings the contacts back and puts every change back', async () => {
+    const record = mergeRecord();
+    mergeModel.findOne.mockResolvedValue(record);
+    mergeModel.findOneAndUpdate.mockResolvedValue({ ...record, status: 'undone' });
+    contactModel.find.mockReturnValue(query([]));
+    contactModel.findOneAndUpdate.mockResolvedValue({ _id: 'survivor' });
+
+    const { merge } = await contactMergeService.undo(USER_ID, 'merge-1');
+
+    expect(merge.status).toBe('undone');
+    expect(contactModel.insertMany).toHaveBeenCalledWith(record.mergedContacts);
+    expect(contactModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'survivor', userId: USER_ID },
+      { $set: { tags: ['vip'], category: 'general', customFields: { city: 'Pune' } }, $unset: { email: 1 } }
+    );
+    expect(messageModel.updateMany).toHaveBeenCalledWith({ _id: { $in: ['message-1'] }, contactId: 'survivor' }, { contactId: 'duplicate' });
+    expect(historyModel.updateMany).toHaveBeenCalledWith({ _id: { $in: ['history-1'] } }, { customerPhone: '919800000000' });
+    expect(stateModel.updateOne).toHaveBeenCalledWith({ _id: 'state-1' }, { customerPhone: '919800000000' });
+    expect(stateModel.insertMany).toHaveBeenCalledWith([{ _id: 'state-2' }]);
+  });
+
+  it('restores only once when two undos race', async () => {
+    mergeModel.findOne.mockResolvedValue(mergeRecord());
+    mergeModel.findOneAndUpdate.mockResolvedValue(null);
+    contactModel.find.mockReturnValue(query([]));
+
+    expect(await contactMergeService.undo(USER_ID, 'merge-1')).toEqual({ error: 'This merge has already been undone', status: 400 });
+    expect(contactModel.insertMany).not.toHaveBeenCalled();
+  });
+});
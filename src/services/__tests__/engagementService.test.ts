@@ -0,0 +1,51 @@
+import engagementService, { EngagementStats } from '../engagementService';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const stats = (overrides: Partial<EngagementStats> = {}): EngagementStats => ({
+  attempted: 0,
+  delivered: 0,
+  read: 0,
+  replied: 0,
+  conversations: 0,
+  bookings: 0,
+  ...overrides
+});
+
+describe('engagementService.score', () => {
+  it('scores a contact with no history as 0', () => {
+    expect(engagementService.score(stats(), NOW)).toBe(0);
+  });
+
+  it('weighs delivery, read and reply rates of campaign messages', () => {
+    // 15 * 4/4 + 20 * 2/4 + 25 * 1/4
+    expect(engagementService.score(stats({ attempted: 4, delivered: 4, read: 2, replied: 1 }), NOW)).toBe(31);
+  });
+
+  it('never counts a rate above 100%', () => {
+    expect(engagementService.score(stats({ attempted: 1, delivered: 3, read: 3, replied: 3 }), NOW)).toBe(60);
+  });
+
+  it('counts a conversation with the auto-reply as reachable and responsive', () => {
+    expect(engagementService.score(stats({ conversations: 1 }), NOW)).toBe(60);
+  });
+
+  it('halves the recency points every 30 days', () => {
+    expect(engagementService.score(stats({ lastInteractionAt: NOW }), NOW)).toBe(25);
+    expect(engagementService.score(stats({ lastInteractionAt: new Date(NOW.getTime() - 30 * DAY_MS) }), NOW)).toBe(13);
+    expect(engagementService.score(stats({ lastInteractionAt: new Date(NOW.getTime() - 60 * DAY_MS) }), NOW)).toBe(6);
+  });
+
+  it('treats an interaction in the future as happening now', () => {
+    expect(engagementService.score(stats({ lastInteractionAt: new Date(NOW.getTime() + DAY_MS) }), NOW)).toBe(25);
+  });
+
+  it('adds points for a confirmed booking', () => {
+    expect(engagementService.score(stats({ bookings: 1 }), NOW)).toBe(15);
+  });
+
+  it('tops out at 100', () => {
+    expect(engagementService.score(stats({ conversations: 3, bookings: 2, lastInteractionAt: NOW }), NOW)).toBe(100);
+  });
+});
@@ -0,0 +1,69 @@
+import phoneService from '../phoneService';
+
+const e164 = (raw: any, defaultCountry?: string) => phoneService.normalize(raw, defaultCountry).phone?.e164;
+
+describe('phoneService.normalize', () => {
+  it('reads national numbers in the default country', () => {
+    expect(phoneService.normalize('98765 43210', 'IN')).toEqual({
+      phone: { e164: '+919876543210', country: 'IN', national: '9876543210' }
+    });
+    expect(e164('(415) 555-2671', 'US')).toBe('+14155552671');
+  });
+
+  it('drops the trunk prefix of national numbers', () => {
+    expect(e164('098765 43210', 'IN')).toBe('+919876543210');
+    expect(e164('020 7946 0958', 'GB')).toBe('+442079460958');
+  });
+
+  it('falls back to the app default country', () => {
+    expect(e164('9876543210')).toBe('+919876543210');
+    expect(e164('9876543210', 'XX')).toBe('+919876543210');
+  });
+
+  it('reads "+" and "00" prefixed numbers as international', () => {
+    expect(phoneService.normalize('+44 20 7946 0958', 'IN').phone).toEqual({
+      e164: '+442079460958',
+      country: 'GB',
+      national: '2079460958'
+    });
+    expect(e164('0044 20 7946 0958', 'IN')).toBe('+442079460958');
+  });
+
+  it('drops a trunk prefix repeated after the country code', () => {
+    expect(e164('+44 (0)20 7946 0958', 'IN')).toBe('+442079460958');
+  });
+
+  it('reads numbers that lost their "+" as international', () => {
+    expect(e164('919876543210', 'IN')).toBe('+919876543210');
+    expect(e164('447946095812', 'IN')).toBe('+447946095812');
+  });
+
+  it('prefers the default country on shared calling codes', () => {
+    expect(phoneService.normalize('+1 416 555 0199', 'CA').phone?.country).toBe('CA');
+    expect(phoneService.normalize('+1 416 555 0199', 'IN').phone?.country).toBe('US');
+  });
+
+  it('accepts unknown calling codes by length only', () => {
+    expect(phoneService.normalize('+886 912 345 678', 'IN').phone).toEqual({
+      e164: '+886912345678',
+      national: '886912345678'
+    });
+  });
+
+  it('rejects missing, short, long and unplaceable numbers', () => {
+    expect(phoneService.normalize('', 'IN').error).toBe('Phone number is required');
+    expect(phoneService.normalize(null, 'IN').error).toBe('Phone number is required');
+    expect(phoneService.normalize('12345', 'IN').error).toBe('Phone number must be between 6-15 digits');
+    expect(phoneService.normalize('1234567890123456', 'IN').error).toBe('Phone number must be between 6-15 digits');
+    expect(phoneService.normalize('1234567', 'IN').error).toBe('Invalid phone number for IN');
+    expect(phoneService.normalize('+0123456789', 'IN').error).toBe('Invalid international phone number');
+  });
+});
+
+describe('phoneService.legacyForms', () => {
+  it('lists every form a number may have been stored in', () => {
+    const { phone } = phoneService.normalize('+919876543210');
+    expect(phoneService.legacyForms(phone)).toEqual(['+919876543210', '919876543210', '9876543210', '09876543210']);
+    expect(phoneService.toChatId(phone)).toBe('919876543210@c.us');
+  });
+});
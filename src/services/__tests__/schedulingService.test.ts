@@ -0,0 +1,74 @@
+import schedulingService, { DEFAULT_SENDING_WINDOW } from '../schedulingService';
+
+const TIME_ZONE = 'Asia/Kolkata'; // UTC+05:30, no DST
+
+// 2026-10-19 is a Monday
+const ist = (day: number, time: string) => new Date(`2026-10-${day.toString().padStart(2, '0')}T${time}:00+05:30`);
+
+describe('schedulingService.getSendingWindow', () => {
+  it('applies the default window when none was saved', () => {
+    expect(schedulingService.getSendingWindow({})).toEqual({ start: 9 * 60, end: 21 * 60, blockedDays: [] });
+    expect(schedulingService.getSendingWindow(undefined)).toEqual(
+      schedulingService.getSendingWindow({ sendingWindow: DEFAULT_SENDING_WINDOW })
+    );
+  });
+
+  it('returns null when the user turned the window off', () => {
+    expect(schedulingService.getSendingWindow({ sendingWindow: { ...DEFAULT_SENDING_WINDOW, enabled: false } })).toBeNull();
+  });
+
+  it('reads times and blocked days', () => {
+    const window = schedulingService.getSendingWindow({
+      sendingWindow: { enabled: true, start: '10:30', end: '18:00', blockedDays: ['Sunday', 'Saturday'] }
+    });
+    expect(window).toEqual({ start: 10 * 60 + 30, end: 18 * 60, blockedDays: [0, 6] });
+  });
+
+  it('treats an invalid window as no window', () => {
+    expect(schedulingService.getSendingWindow({ sendingWindow: { enabled: true, start: '18:00', end: '09:00' } })).toBeNull();
+  });
+});
+
+describe('schedulingService.getNextOpenSlot', () => {
+  const window = { start: 9 * 60, end: 21 * 60, blockedDays: [0] }; // 09:00-21:00, not on Sundays
+
+  it('keeps a time inside the window', () => {
+    const date = ist(19, '12:00');
+    expect(schedulingService.isWithinWindow(date, window, TIME_ZONE)).toBe(true);
+    expect(schedulingService.getNextOpenSlot(date, window, TIME_ZONE)).toEqual(date);
+  });
+
+  it('moves a time before the window to its opening the same day', () => {
+    expect(schedulingService.getNextOpenSlot(ist(19, '06:15'), window, TIME_ZONE)).toEqual(ist(19, '09:00'));
+  });
+
+  it('moves a time after the window to the next day', () => {
+    expect(schedulingService.getNextOpenSlot(ist(19, '21:00'), window, TIME_ZONE)).toEqual(ist(20, '09:00'));
+  });
+
+  it('skips blocked days', () => {
+    expect(schedulingService.getNextOpenSlot(ist(24, '22:00'), window, TIME_ZONE)).toEqual(ist(26, '09:00'));
+  });
+
+  it('leaves any time open without a window', () => {
+    const date = ist(25, '03:00');
+    expect(schedulingService.getNextOpenSlot(date, null, TIME_ZONE)).toEqual(date);
+  });
+});
+
+describe('schedulingService.planSendTimes', () => {
+  it('spaces messages by the delay and carries the overflow into the next window', () => {
+    const window = { start: 9 * 60, end: 21 * 60, blockedDays: [] };
+    const times = schedulingService.planSendTimes(ist(19, '20:58'), 4, 60 * 1000, window, TIME_ZONE);
+
+    expect(times).toEqual([ist(19, '20:58'), ist(19, '20:59'), ist(20, '09:00'), ist(20, '09:01')]);
+  });
+});
+
+describe('schedulingService.parseScheduledAt', () => {
+  it('reads plain times in the given timezone and honours explicit offsets', () => {
+    expect(schedulingService.parseScheduledAt('2026-10-19T09:00', TIME_ZONE)).toEqual(ist(19, '09:00'));
+    expect(schedulingService.parseScheduledAt('2026-10-19T09:00:00Z', TIME_ZONE)).toEqual(new Date('2026-10-19T09:00:00Z'));
+    expect(schedulingService.parseScheduledAt('tomorrow', TIME_ZONE)).toBeNull();
+  });
+});
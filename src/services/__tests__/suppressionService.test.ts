@@ -0,0 +1,63 @@
+import Suppression from '../../models/Suppression';
+import suppressionService from '../suppressionService';
+
+jest.mock('../../models/Suppression', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), find: jest.fn() }
+}));
+jest.mock('../../models/User', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+
+const suppressionModel = Suppression as any;
+
+const givenSuppressedPhones = (...phones: string[]) => {
+  suppressionModel.find.mockReturnValue({ select: () => ({ lean: jest.fn().mockResolvedValue(phones.map(phone => ({ phone }))) }) });
+};
+
+describe('suppressionService phone keys', () => {
+  it('keys numbers on their E.164 form', () => {
+    expect(suppressionService.getPhoneKey('098765 43210', 'IN')).toBe('+919876543210');
+    expect(suppressionService.getPhoneKey('+1 (987) 654-3210', 'IN')).toBe('+19876543210');
+    expect(suppressionService.getPhoneKey('12345', 'IN')).toBeNull();
+  });
+
+  it('does not match the same national digits in another country', async () => {
+    givenSuppressedPhones('+919876543210');
+
+    const keys = await suppressionService.getSuppressedKeys('user-1', 'IN');
+
+    expect(keys.has(suppressionService.getPhoneKey('+919876543210', 'IN'))).toBe(true);
+    expect(keys.has(suppressionService.getPhoneKey('+19876543210', 'IN'))).toBe(false);
+  });
+
+  it('reads entries stored before numbers were normalized in the default country', async () => {
+    givenSuppressedPhones('9876543210', '447946095812');
+
+    expect(await suppressionService.getSuppressedKeys('user-1', 'IN')).toEqual(new Set(['+919876543210', '+447946095812']));
+  });
+});
+
+describe('suppressionService.findSuppression', () => {
+  it('looks up exact forms of the number', async () => {
+    suppressionModel.findOne.mockResolvedValue(null);
+
+    await suppressionService.findSuppression('user-1', '+919876543210', 'IN');
+
+    expect(suppressionModel.findOne).toHaveBeenCalledWith({
+      userId: 'user-1',
+      phone: { $in: ['+919876543210', '919876543210', '9876543210', '09876543210'] }
+    });
+  });
+
+  it('only reads national digits as a number in the default country', async () => {
+    suppressionModel.findOne.mockResolvedValue(null);
+
+    await suppressionService.findSuppression('user-1', '+19876543210', 'IN');
+
+    expect(suppressionModel.findOne).toHaveBeenCalledWith({ userId: 'user-1', phone: { $in: ['+19876543210', '19876543210'] } });
+  });
+
+  it('does not look up numbers that cannot be normalized', async () => {
+    expect(await suppressionService.isSuppressed('user-1', '12345', 'IN')).toBe(false);
+    expect(suppressionModel.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import redis from '../../config/redis';
+import BulkMessage from '../../models/BulkMessage';
+import throttleService from '../throttleService';
+
+// In-memory stand-in for the redis list commands the service uses
+jest.mock('../../config/redis', () => {
+  const lists = new Map<string, string[]>();
+  return {
+    __esModule: true,
+    default: {
+      lists,
+      lpush: jest.fn(async (key: string, value: string) => {
+        lists.set(key, [value, ...(lists.get(key) || [])]);
+        return lists.get(key).length;
+      }),
+      ltrim: jest.fn(async (key: string, start: number, stop: number) => {
+        lists.set(key, (lists.get(key) || []).slice(start, stop + 1));
+        return 'OK';
+      }),
+      lrange: jest.fn(async (key: string) => lists.get(key) || []),
+      expire: jest.fn(async () => 1),
+      del: jest.fn(async (key: string) => (lists.delete(key) ? 1 : 0))
+    }
+  };
+});
+
+jest.mock('../../models/BulkMessage', () => ({
+  __esModule: true,
+  default: {
+    findById: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+const lists: Map<string, string[]> = (redis as any).lists;
+const bulkMessageModel = BulkMessage as any;
+
+const CAMPAIGN_ID = 'campaign-1';
+const settings = { adaptiveThrottling: { enabled: true, slowDownFailureRate: 20, pauseFailureRate: 50 } };
+
+// Campaign the service loads when deciding, at the given throttle level
+const givenCampaign = (level: number, status = 'processing') => {
+  bulkMessageModel.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ status, throttle: { level } }) });
+  bulkMessageModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+};
+
+const record = async (outcomes: Array<string | undefined>) => {
+  let decision = null;
+  for (const errorMessage of outcomes) {
+    decision = await throttleService.recordOutcome(CAMPAIGN_ID, settings, errorMessage);
+  }
+  return decision;
+};
+
+const ok = (count: number): undefined[] => Array(count).fill(undefined);
+
+describe('throttleService.recordOutcome', () => {
+  beforeEach(() => {
+    lists.clear();
+    givenCampaign(0);
+  });
+
+  it('waits for enough sends before deciding', async () => {
+    expect(await record(['Session closed', 'Session closed', 'Session closed', 'Session closed'])).toBeNull();
+    expect(bulkMessageModel.findById).not.toHaveBeenCalled();
+  });
+
+  it('slows down when failures cluster', async () => {
+    const decision = await record([...ok(4), 'Some send error']);
+
+    expect(decision).toMatchObject({ action: 'slow_down', level: 1, failureRate: 20 });
+    expect(bulkMessageModel.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: CAMPAIGN_ID, status: 'processing' }),
+      expect.objectContaining({ $set: { 'throttle.level': 1 } })
+    );
+    // The window starts over at the new pace
+    expect(lists.has(`throttle:${CAMPAIGN_ID}:outcomes`)).toBe(false);
+  });
+
+  it('weighs session failures double and pauses on them', async () => {
+    const decision = await record([...ok(3), 'Evaluation failed: x', 'Protocol error (Runtime.callFunctionOn)']);
+
+    expect(decision).toMatchObject({ action: 'pause', level: 0, failureRate: 80 });
+    expect(bulkMessageModel.updateOne.mock.calls[0][1].$set).toMatchObject({ status: 'paused' });
+  });
+
+  it('pauses instead of slowing down past the slowest pace', async () => {
+    givenCampaign(3);
+    expect(await record([...ok(4), 'Some send error'])).toMatchObject({ action: 'pause', level: 3 });
+  });
+
+  it('ignores failures that say nothing about sending health', async () => {
+    expect(await record([...ok(4), 'Invalid phone number format', 'Recipient opted out', 'Cancelled by user'])).toBeNull();
+    expect(lists.get(`throttle:${CAMPAIGN_ID}:outcomes`)).toHaveLength(4);
+  });
+
+  it('speeds up again after a run of clean sends', async () => {
+    givenCampaign(2);
+    expect(await record(ok(10))).toMatchObject({ action: 'speed_up', level: 1 });
+  });
+
+  it('leaves a campaign that is no longer sending alone', async () => {
+    givenCampaign(0, 'paused');
+    expect(await record([...ok(4), 'Session closed'])).toBeNull();
+    expect(bulkMessageModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('reports no decision when another worker applied one first', async () => {
+    bulkMessageModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+    expect(await record([...ok(4), 'Some send error'])).toBeNull();
+  });
+
+  it('does nothing when adaptive throttling is off', async () => {
+    const decision = await throttleService.recordOutcome(CAMPAIGN_ID, { adaptiveThrottling: { enabled: false } }, 'Session closed');
+    expect(decision).toBeNull();
+    expect(lists.size).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import redis from '../../config/redis';
+import warmupService, { DEFAULT_WARMUP_POLICY } from '../warmupService';
+
+// In-memory stand-in for the few redis commands the service uses
+jest.mock('../../config/redis', () => {
+  const store = new Map<string, string>();
+  return {
+    __esModule: true,
+    default: {
+      store,
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any, mode?: string) => {
+        if (mode === 'NX' && store.has(key)) return null;
+        store.set(key, value.toString());
+        return 'OK';
+      }),
+      incr: jest.fn(async (key: string) => {
+        const value = parseInt(store.get(key) || '0') + 1;
+        store.set(key, value.toString());
+        return value;
+      }),
+      decr: jest.fn(async (key: string) => {
+        const value = parseInt(store.get(key) || '0') - 1;
+        store.set(key, value.toString());
+        return value;
+      }),
+      expire: jest.fn(async () => 1)
+    }
+  };
+});
+
+const redisStore: Map<string, string> = (redis as any).store;
+
+const settings = (warmup: any) => ({ timezone: 'Asia/Kolkata', warmup });
+const ist = (day: number, time: string) => new Date(`2026-10-${day.toString().padStart(2, '0')}T${time}:00+05:30`);
+
+describe('warmupService', () => {
+  beforeEach(() => {
+    redisStore.clear();
+  });
+
+  it('is off unless the user turns it on', () => {
+    expect(DEFAULT_WARMUP_POLICY.enabled).toBe(false);
+    expect(warmupService.getPolicy({}).enabled).toBe(false);
+  });
+
+  it('ramps linearly from the start cap to the target cap', () => {
+    const policy = warmupService.getPolicy(settings({ enabled: true, startCap: 50, targetCap: 1000, rampDays: 14 }));
+    const schedule = warmupService.getSchedule(policy);
+
+    expect(schedule).toHaveLength(14);
+    expect(schedule[0]).toBe(50);
+    expect(schedule[13]).toBe(1000);
+    schedule.slice(1).forEach((cap, day) => expect(cap).toBeGreaterThanOrEqual(schedule[day]));
+  });
+
+  it('goes straight to the target cap with a one-day ramp', () => {
+    expect(warmupService.getSchedule({ enabled: true, startCap: 10, targetCap: 500, rampDays: 1 })).toEqual([500]);
+  });
+
+  it('stops at the day cap and resumes at the next local midnight', async () => {
+    const userSettings = settings({ enabled: true, startCap: 2, targetCap: 10, rampDays: 5 });
+    const now = ist(19, '15:00');
+
+    expect((await warmupService.reserveSend('919800000001', userSettings, now)).allowed).toBe(true);
+    expect((await warmupService.reserveSend('919800000001', userSettings, now)).allowed).toBe(true);
+
+    const refused = await warmupService.reserveSend('919800000001', userSettings, now);
+    expect(refused).toEqual({ allowed: false, cap: 2, sentToday: 2, resumeAt: ist(20, '00:00') });
+
+    // The next day allows more, following the ramp
+    const nextDay = await warmupService.reserveSend('919800000001', userSettings, ist(20, '09:00'));
+    expect(nextDay).toEqual({ allowed: true, cap: 4, sentToday: 1 });
+  });
+
+  it('gives a released send back to the day', async () => {
+    const userSettings = settings({ enabled: true, startCap: 1, targetCap: 10, rampDays: 5 });
+    const now = ist(19, '15:00');
+
+    await warmupService.reserveSend('919800000002', userSettings, now);
+    await warmupService.releaseSend('919800000002', userSettings, now);
+
+    expect((await warmupService.reserveSend('919800000002', userSettings, now)).allowed).toBe(true);
+  });
+
+  it('starts the ramp the first time it sends with warm-up on', async () => {
+    await warmupService.reserveSend('919800000003', settings({ enabled: false }), ist(5, '10:00'));
+    await warmupService.getStatus('919800000003', settings({ enabled: true, startCap: 5, targetCap: 50, rampDays: 10 }), ist(6, '10:00'));
+
+    const userSettings = settings({ enabled: true, startCap: 5, targetCap: 50, rampDays: 10 });
+    const first = await warmupService.reserveSend('919800000003', userSettings, ist(19, '10:00'));
+    expect(first.cap).toBe(5);
+
+    const status = await warmupService.getStatus('919800000003', userSettings, ist(21, '10:00'));
+    expect(status).toMatchObject({ day: 3, cap: 15, sentToday: 0, remainingToday: 15 });
+  });
+
+  it('does not cap a number with warm-up off', async () => {
+    const result = await warmupService.reserveSend('919800000004', settings({ enabled: false }), ist(19, '10:00'));
+    expect(result).toEqual({ allowed: true, cap: null, sentToday: 1 });
+  });
+});
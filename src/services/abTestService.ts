@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { IBulkMessage } from '../models/BulkMessage';
+
+export const VARIANT_KEYS = ['A', 'B', 'C', 'D', 'E'];
+
+export const WINNER_METRICS = ['delivered', 'read', 'replied'] as const;
+export type WinnerMetric = typeof WINNER_METRICS[number];
+
+export interface AbTestConfig {
+  mode: 'split' | 'winner';
+  seed: string;
+  ratios: number[]; // Percentage of contacts per variant, same order as the variants
+  testPercent?: number; // Winner mode: share of contacts in the test cohort
+  waitHours?: number; // Winner mode: how long to collect results after the test cohort is sent
+  metric?: WinnerMetric;
+}
+
+const DEFAULT_TEST_PERCENT = 20;
+const DEFAULT_WAIT_HOURS = 4;
+
+const rate = (part: number, whole: number): number =>
+  whole > 0 ? Math.round(part / whole * 1000) / 10 : 0;
+
+class AbTestService {
+  /**
+   * Validate the A/B options from a send-bulk request. Returns an error
+   * message, or the normalized config. Ratios are weights and are scaled to
+   * percentages; without them contacts are split evenly.
+   */
+  parseConfig(
+    variants: any,
+    splitRatio: any,
+    options: any = {}
+  ): { error?: string; config?: AbTestConfig; messages?: string[] } {
+    if (!Array.isArray(variants) || variants.length < 2 || variants.length > VARIANT_KEYS.length) {
+      return { error: `variants must be a list of 2 to ${VARIANT_KEYS.length} messages` };
+    }
+
+    const messages = variants.map(variant => (typeof variant === 'string' ? variant : variant?.message || '').trim());
+    if (messages.some(text => !text || text.length > 4096)) {
+      return { error: 'Every variant needs a message of at most 4096 characters' };
+    }
+
+    const weights: number[] = splitRatio === undefined ? messages.map(() => 1) : splitRatio;
+    if (!Array.isArray(weights) || weights.length !== messages.length ||
+        weights.some(weight => typeof weight !== 'number' || !(weight > 0))) {
+      return { error: 'splitRatio must have one positive number per variant' };
+    }
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const mode = options?.mode === 'winner' ? 'winner' : 'split';
+    const config: AbTestConfig = {
+      mode,
+      seed: crypto.createHash('md5').update(messages.join('\u0000')).digest('hex'),
+      ratios: weights.map(weight => Math.round(weight / totalWeight * 1000) / 10)
+    };
+
+    if (mode === 'winner') {
+      const testPercent = options.testPercent ?? DEFAULT_TEST_PERCENT;
+      const waitHours = options.waitHours ?? DEFAULT_WAIT_HOURS;
+      const metric = options.metric ?? 'read';
+
+      if (typeof testPercent !== 'number' || testPercent < 5 || testPercent > 50) {
+        return { error: 'testPercent must be between 5 and 50' };
+      }
+      if (typeof waitHours !== 'number' || waitHours < 0.5 || waitHours > 72) {
+        return { error: 'waitHours must be between 0.5 and 72' };
+      }
+      if (!WINNER_METRICS.includes(metric)) {
+        return { error: `metric must be one of ${WINNER_METRICS.join(', ')}` };
+      }
+
+      Object.assign(config, { testPercent, waitHours, metric });
+    }
+
+    return { config, messages };
+  }
+
+  // Stable number in [0, 1) for a seed, so a contact always lands in the same bucket
+  private bucket(seed: string): number {
+    return parseInt(crypto.createHash('md5').update(seed).digest('hex').slice(0, 8), 16) / 0x100000000;
+  }
+
+  assignVariant(config: AbTestConfig, contactId: string): string {
+    const point = this.bucket(`${config.seed}:${contactId}`) * 100;
+    let cumulative = 0;
+
+    for (let i = 0; i < config.ratios.length; i++) {
+      cumulative += config.ratios[i];
+      if (point < cumulative) {
+        return VARIANT_KEYS[i];
+      }
+    }
+    return VARIANT_KEYS[config.ratios.length - 1];
+  }
+
+  // Winner mode: whether a contact belongs to the test cohort that gets the variants first
+  isInTestCohort(config: AbTestConfig, contactId: string): boolean {
+    if (config.mode !== 'winner') return true;
+    return this.bucket(`${config.seed}:${contactId}:cohort`) * 100 < (config.testPercent || DEFAULT_TEST_PERCENT);
+  }
+
+  // Per-variant counters with delivery/read/reply rates as a percentage of sent messages
+  summarize(bulkMessage: IBulkMessage) {
+    return (bulkMessage.variants || []).map(variant => ({
+      key: variant.key,
+      message: variant.message,
+      ratio: variant.ratio,
+      isWinner: bulkMessage.abTest?.winnerKey === variant.key,
+      stats: variant.stats,
+      deliveryRate: rate(variant.stats.delivered, variant.stats.sent),
+      readRate: rate(variant.stats.read, variant.stats.sent),
+      replyRate: rate(variant.stats.replied, variant.stats.sent)
+    }));
+  }
+
+  /**
+   * Pick the variant with the best rate for the chosen metric. Ties go to the
+   * better read rate, then to the earlier variant.
+   */
+  pickWinner(bulkMessage: IBulkMessage): string | null {
+    const metric: WinnerMetric = bulkMessage.abTest?.metric || 'read';
+    const sent = (bulkMessage.variants || []).filter(variant => variant.stats.sent > 0);
+    if (sent.length === 0) {
+      return null;
+    }
+
+    const score = (variant: IBulkMessage['variants'][number]) => [
+      rate(variant.stats[metric], variant.stats.sent),
+      rate(variant.stats.read, variant.stats.sent)
+    ];
+
+    return sent.reduce((best, variant) => {
+      const [bestScore, bestRead] = score(best);
+      const [variantScore, variantRead] = score(variant);
+      return variantScore > bestScore || (variantScore === bestScore && variantRead > bestRead) ? variant : best;
+    }).key;
+  }
+}
+
+export default new AbTestService();
@@ -0,0 +1,270 @@
+import XLSX from 'xlsx';
+import Message from '../models/Message';
+import { IBulkMessage } from '../models/BulkMessage';
+import campaignTrackingService, { FAILURE_CLASSES } from './campaignTrackingService';
+import { escapeFormula } from '../utils/spreadsheet';
+
+interface FunnelCounts {
+  total: number;
+  queued: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  failed: number;
+}
+
+interface ContactOutcome {
+  contactId: string;
+  name: string;
+  phone: string;
+  category: string;
+  tags: string[];
+  status: string;
+  variant?: string;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  repliedAt?: Date;
+  secondsToRead?: number;
+  failureClass?: string;
+  errorMessage?: string;
+}
+
+export interface CampaignReport {
+  campaign: any;
+  funnel: FunnelCounts;
+  rates: {
+    deliveryRate: number;
+    readRate: number;
+    replyRate: number;
+    failureRate: number;
+  };
+  failureReasons: Array<{ failureClass: string; label: string; count: number; examples: string[] }>;
+  timeToRead: {
+    count: number;
+    averageSeconds: number | null;
+    p50Seconds: number | null;
+    p75Seconds: number | null;
+    p90Seconds: number | null;
+    p95Seconds: number | null;
+  };
+  byCategory: Array<FunnelCounts & { category: string }>;
+  byTag: Array<FunnelCounts & { tag: string }>;
+  byVariant: Array<FunnelCounts & { variant: string; isWinner: boolean }>;
+  contacts: ContactOutcome[];
+}
+
+const SENT_STATUSES = ['sent', 'delivered', 'read'];
+
+const percentage = (part: number, whole: number): number =>
+  whole > 0 ? Math.round(part / whole * 1000) / 10 : 0;
+
+// Nearest-rank percentile over an ascending list
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil(p / 100 * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+const emptyFunnel = (): FunnelCounts => ({
+  total: 0,
+  queued: 0,
+  sent: 0,
+  delivered: 0,
+  read: 0,
+  replied: 0,
+  failed: 0
+});
+
+const addToFunnel = (funnel: FunnelCounts, outcome: ContactOutcome) => {
+  funnel.total++;
+  if (outcome.status !== 'cancelled') funnel.queued++;
+  if (SENT_STATUSES.includes(outcome.status)) funnel.sent++;
+  if (outcome.status === 'delivered' || outcome.status === 'read') funnel.delivered++;
+  if (outcome.status === 'read') funnel.read++;
+  if (outcome.repliedAt) funnel.replied++;
+  if (outcome.status === 'failed') funnel.failed++;
+};
+
+class CampaignReportService {
+  // Build the full analytics report for a campaign
+  async buildReport(bulkMessage: IBulkMessage): Promise<CampaignReport> {
+    const messages = await Message.find({ bulkMessageId: bulkMessage._id })
+      .populate('contactId', 'name phone category tags')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const contacts: ContactOutcome[] = messages.map((msg: any) => {
+      const contact = msg.contactId || {};
+      const outcome: ContactOutcome = {
+        contactId: contact._id ? contact._id.toString() : '',
+        name: contact.name || '',
+        phone: contact.phone || '',
+        category: contact.category || 'general',
+        tags: contact.tags || [],
+        status: msg.status,
+        variant: msg.variant,
+        sentAt: msg.sentAt,
+        deliveredAt: msg.deliveredAt,
+        readAt: msg.readAt,
+        repliedAt: msg.repliedAt
+      };
+
+      if (msg.sentAt && msg.readAt) {
+        outcome.secondsToRead = Math.max(0, Math.round((new Date(msg.readAt).getTime() - new Date(msg.sentAt).getTime()) / 1000));
+      }
+      if (msg.status === 'failed' || msg.status === 'cancelled') {
+        outcome.failureClass = campaignTrackingService.classifyFailure(msg.errorMessage);
+        outcome.errorMessage = msg.errorMessage;
+      }
+
+      return outcome;
+    });
+
+    const funnel = emptyFunnel();
+    const categories = new Map<string, FunnelCounts>();
+    const tags = new Map<string, FunnelCounts>();
+    const variants = new Map<string, FunnelCounts>();
+
+    contacts.forEach(outcome => {
+      addToFunnel(funnel, outcome);
+
+      if (!categories.has(outcome.category)) categories.set(outcome.category, emptyFunnel());
+      addToFunnel(categories.get(outcome.category)!, outcome);
+
+      outcome.tags.forEach(tag => {
+        if (!tags.has(tag)) tags.set(tag, emptyFunnel());
+        addToFunnel(tags.get(tag)!, outcome);
+      });
+
+      if (outcome.variant) {
+        if (!variants.has(outcome.variant)) variants.set(outcome.variant, emptyFunnel());
+        addToFunnel(variants.get(outcome.variant)!, outcome);
+      }
+    });
+
+    const readTimes = contacts
+      .filter(outcome => outcome.secondsToRead !== undefined)
+      .map(outcome => outcome.secondsToRead!)
+      .sort((a, b) => a - b);
+
+    return {
+      campaign: {
+        id: bulkMessage._id,
+        status: bulkMessage.status,
+        category: bulkMessage.category,
+        originalMessage: bulkMessage.originalMessage,
+        totalContacts: bulkMessage.totalContacts,
+        createdAt: bulkMessage.createdAt,
+        startedAt: bulkMessage.startedAt,
+        completedAt: bulkMessage.completedAt
+      },
+      funnel,
+      rates: {
+        deliveryRate: percentage(funnel.delivered, funnel.sent),
+        readRate: percentage(funnel.read, funnel.sent),
+        replyRate: percentage(funnel.replied, funnel.sent),
+        failureRate: percentage(funnel.failed, funnel.queued)
+      },
+      failureReasons: this.groupFailures(contacts),
+      timeToRead: {
+        count: readTimes.length,
+        averageSeconds: readTimes.length > 0
+          ? Math.round(readTimes.reduce((sum, seconds) => sum + seconds, 0) / readTimes.length)
+          : null,
+        p50Seconds: percentile(readTimes, 50),
+        p75Seconds: percentile(readTimes, 75),
+        p90Seconds: percentile(readTimes, 90),
+        p95Seconds: percentile(readTimes, 95)
+      },
+      byCategory: Array.from(categories.entries()).map(([category, counts]) => ({ category, ...counts })),
+      byTag: Array.from(tags.entries())
+        .map(([tag, counts]) => ({ tag, ...counts }))
+        .sort((a, b) => b.total - a.total),
+      byVariant: Array.from(variants.entries())
+        .map(([variant, counts]) => ({ variant, isWinner: bulkMessage.abTest?.winnerKey === variant, ...counts }))
+        .sort((a, b) => a.variant.localeCompare(b.variant)),
+      contacts
+    };
+  }
+
+  private groupFailures(contacts: ContactOutcome[]) {
+    const groups = new Map<string, { count: number; examples: Set<string> }>();
+
+    contacts.filter(outcome => outcome.failureClass).forEach(outcome => {
+      if (!groups.has(outcome.failureClass!)) {
+        groups.set(outcome.failureClass!, { count: 0, examples: new Set() });
+      }
+      const group = groups.get(outcome.failureClass!)!;
+      group.count++;
+      if (outcome.errorMessage && group.examples.size < 3) {
+        group.examples.add(outcome.errorMessage);
+      }
+    });
+
+    return Array.from(groups.entries())
+      .map(([failureClass, group]) => ({
+        failureClass,
+        label: FAILURE_CLASSES.find(c => c.key === failureClass)?.label || 'Other error',
+        count: group.count,
+        examples: Array.from(group.examples)
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  // Contact details and error text are user or WhatsApp supplied, so formula-like cells are quoted
+  private contactRows(report: CampaignReport) {
+    return report.contacts.map(outcome => ({
+      Name: escapeFormula(outcome.name),
+      Phone: escapeFormula(outcome.phone),
+      Category: outcome.category,
+      Tags: escapeFormula(outcome.tags.join(', ')),
+      Status: outcome.status,
+      Variant: outcome.variant || '',
+      'Sent At': outcome.sentAt ? new Date(outcome.sentAt).toISOString() : '',
+      'Delivered At': outcome.deliveredAt ? new Date(outcome.deliveredAt).toISOString() : '',
+      'Read At': outcome.readAt ? new Date(outcome.readAt).toISOString() : '',
+      'Replied At': outcome.repliedAt ? new Date(outcome.repliedAt).toISOString() : '',
+      'Seconds To Read': outcome.secondsToRead ?? '',
+      'Failure Reason': escapeFormula(outcome.errorMessage || '')
+    }));
+  }
+
+  // Per-contact outcomes as CSV
+  toCsv(report: CampaignReport): string {
+    return XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(this.contactRows(report)));
+  }
+
+  // Workbook with summary, breakdown and per-contact sheets
+  toXlsx(report: CampaignReport): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    const summary = [
+      ...Object.entries(report.funnel).map(([metric, value]) => ({ Metric: metric, Value: value })),
+      ...Object.entries(report.rates).map(([metric, value]) => ({ Metric: `${metric} (%)`, Value: value })),
+      ...Object.entries(report.timeToRead).map(([metric, value]) => ({ Metric: `timeToRead.${metric}`, Value: value ?? '' }))
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(summary), 'Summary');
+
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(report.failureReasons.map(reason => ({
+        Reason: reason.label,
+        Count: reason.count,
+        Examples: escapeFormula(reason.examples.join(' | '))
+      }))),
+      'Failures'
+    );
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.byCategory), 'By Category');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.byTag.map(row => ({ ...row, tag: escapeFormula(row.tag) }))), 'By Tag');
+    if (report.byVariant.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(report.byVariant), 'By Variant');
+    }
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(this.contactRows(report)), 'Contacts');
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+}
+
+export default new CampaignReportService();
@@ -0,0 +1,201 @@
+import Message, { IMessage } from '../models/Message';
+import BulkMessage, { IBulkMessage } from '../models/BulkMessage';
+import Contact from '../models/Contact';
+import User from '../models/User';
+
+// whatsapp-web.js ack levels (see MessageAck in the library)
+const ACK_DEVICE = 2;
+const ACK_READ = 3;
+
+// Default window (hours after sending) in which a reply is credited to a campaign
+const DEFAULT_ATTRIBUTION_HOURS = 72;
+
+// Progress counters that are also kept per A/B variant
+const VARIANT_STATS = ['sent', 'delivered', 'read', 'replied', 'failed'];
+
+// Failure classes, matched in order against a message's errorMessage
+export const FAILURE_CLASSES: Array<{ key: string; label: string; pattern: RegExp }> = [
+  { key: 'cancelled', label: 'Cancelled by user', pattern: /cancelled by user/i },
+  { key: 'opted_out', label: 'Recipient opted out', pattern: /opted out/i },
+  { key: 'not_connected', label: 'WhatsApp not connected', pattern: /not connected|not ready|scheduled start time/i },
+  { key: 'timeout', label: 'Send timed out', pattern: /timeout|timed out/i },
+  { key: 'invalid_number', label: 'Invalid phone number', pattern: /invalid .*phone|phone number format|not registered|wid error/i },
+  { key: 'evaluation_failed', label: 'WhatsApp Web evaluation error', pattern: /evaluation failed/i },
+  { key: 'session_error', label: 'Session closed or crashed', pattern: /session closed|target closed|protocol error|page crashed/i },
+];
+
+interface TrackingUpdate {
+  message: IMessage;
+  bulkMessage: IBulkMessage | null;
+}
+
+class CampaignTrackingService {
+  // Map a raw send error to one of FAILURE_CLASSES, or 'other'
+  classifyFailure(errorMessage?: string): string {
+    if (!errorMessage) return 'other';
+    const match = FAILURE_CLASSES.find(failureClass => failureClass.pattern.test(errorMessage));
+    return match ? match.key : 'other';
+  }
+
+  /**
+   * $inc campaign progress counters (e.g. { 'progress.sent': 1 }), mirroring
+   * them onto the message's A/B variant when it has one.
+   */
+  async incrementProgress(
+    bulkMessageId: any,
+    variant: string | undefined,
+    increments: { [field: string]: number }
+  ): Promise<IBulkMessage | null> {
+    if (variant) {
+      const update: { [field: string]: number } = { ...increments };
+      Object.entries(increments).forEach(([field, amount]) => {
+        const stat = field.replace('progress.', '');
+        if (VARIANT_STATS.includes(stat)) {
+          update[`variants.$.stats.${stat}`] = amount;
+        }
+      });
+
+      const updated = await BulkMessage.findOneAndUpdate(
+        { _id: bulkMessageId, 'variants.key': variant },
+        { $inc: update },
+        { new: true }
+      );
+      if (updated) return updated;
+    }
+
+    return BulkMessage.findByIdAndUpdate(bulkMessageId, { $inc: increments }, { new: true });
+  }
+
+  /**
+   * Apply a message_ack event to the matching campaign message. Statuses only
+   * move forward (sent -> delivered -> read), so repeated or out-of-order acks
+   * never double count in the campaign progress.
+   */
+  async recordAck(userId: string, whatsappMessageId: string, ack: number): Promise<TrackingUpdate | null> {
+    if (!whatsappMessageId || ack < ACK_DEVICE) {
+      return null;
+    }
+
+    const now = new Date();
+    const increments: { [field: string]: number } = {};
+    let previous: IMessage | null;
+
+    if (ack >= ACK_READ) {
+      previous = await Message.findOneAndUpdate(
+        { userId, whatsappMessageId, status: { $in: ['sent', 'delivered'] } },
+        { status: 'read', readAt: now }
+      );
+      if (!previous) return null;
+
+      increments['progress.read'] = 1;
+      // The delivery ack can be skipped when a message is read straight away
+      if (previous.status === 'sent') {
+        increments['progress.delivered'] = 1;
+        await Message.updateOne({ _id: previous._id, deliveredAt: { $exists: false } }, { deliveredAt: now });
+      }
+    } else {
+      previous = await Message.findOneAndUpdate(
+        { userId, whatsappMessageId, status: 'sent' },
+        { status: 'delivered', deliveredAt: now }
+      );
+      if (!previous) return null;
+
+      increments['progress.delivered'] = 1;
+    }
+
+    const message = await Message.findById(previous._id);
+
+    let bulkMessage: IBulkMessage | null = null;
+    if (previous.bulkMessageId) {
+      bulkMessage = await this.incrementProgress(previous.bulkMessageId, previous.variant, increments);
+    }
+
+    return { message, bulkMessage };
+  }
+
+  // Most recent campaign message sent to a phone within the user's attribution window
+  private async findAttributedMessage(userId: string, fromNumber: string, receivedAt: Date): Promise<IMessage | null> {
+    const digits = (fromNumber || '').replace(/\D/g, '');
+    if (digits.length < 10) {
+      return null;
+    }
+
+    // Contacts are stored in E.164; ones saved before normalization may lack the country code
+    const lastTen = digits.slice(-10);
+    const contacts = await Contact.find({
+      userId,
+      phone: { $in: [`+${digits}`, digits, lastTen, `0${lastTen}`] }
+    }).select('_id');
+
+    if (contacts.length === 0) {
+      return null;
+    }
+
+    const user = await User.findById(userId).select('settings');
+    const attributionHours = user?.settings?.replyAttributionWindow || DEFAULT_ATTRIBUTION_HOURS;
+    const windowStart = new Date(receivedAt.getTime() - attributionHours * 60 * 60 * 1000);
+
+    return Message.findOne({
+      userId,
+      contactId: { $in: contacts.map(contact => contact._id) },
+      bulkMessageId: { $exists: true },
+      status: { $in: ['sent', 'delivered', 'read'] },
+      sentAt: { $gte: windowStart, $lte: receivedAt }
+    }).sort({ sentAt: -1 });
+  }
+
+  /**
+   * Credit an inbound message to the most recent campaign message sent to that
+   * phone within the user's attribution window. Only the first reply counts
+   * towards the campaign's replied total; later ones just bump replyCount.
+   */
+  async recordReply(userId: string, fromNumber: string, receivedAt: Date = new Date()): Promise<TrackingUpdate | null> {
+    const campaignMessage = await this.findAttributedMessage(userId, fromNumber, receivedAt);
+    if (!campaignMessage) {
+      return null;
+    }
+
+    // Only the update that sets repliedAt counts the reply, so concurrent replies are counted once
+    let message = await Message.findOneAndUpdate(
+      { _id: campaignMessage._id, repliedAt: { $exists: false } },
+      { $inc: { replyCount: 1 }, $set: { repliedAt: receivedAt } },
+      { new: true }
+    );
+    const isFirstReply = !!message;
+    if (!message) {
+      message = await Message.findByIdAndUpdate(campaignMessage._id, { $inc: { replyCount: 1 } }, { new: true });
+    }
+
+    let bulkMessage: IBulkMessage | null = null;
+    if (isFirstReply) {
+      bulkMessage = await this.incrementProgress(campaignMessage.bulkMessageId, campaignMessage.variant, { 'progress.replied': 1 });
+    }
+
+    return { message, bulkMessage };
+  }
+
+  /**
+   * Credit an opt-out request to the campaign message that triggered it. Opt-outs
+   * are counted on their own instead of as replies, once per message.
+   */
+  async recordOptOut(userId: string, fromNumber: string, receivedAt: Date = new Date()): Promise<TrackingUpdate | null> {
+    const campaignMessage = await this.findAttributedMessage(userId, fromNumber, receivedAt);
+    if (!campaignMessage) {
+      return null;
+    }
+
+    const message = await Message.findOneAndUpdate(
+      { _id: campaignMessage._id, optedOutAt: { $exists: false } },
+      { $set: { optedOutAt: receivedAt } },
+      { new: true }
+    );
+    if (!message) {
+      return null;
+    }
+
+    const bulkMessage = await this.incrementProgress(message.bulkMessageId, message.variant, { 'progress.optedOut': 1 });
+    return { message, bulkMessage };
+  }
+}
+
+export default new CampaignTrackingService();
@@ -0,0 +1,51 @@
+import ContactActivity, { IContactActivity } from '../models/ContactActivity';
+
+type ActivitySource = IContactActivity['source'];
+
+// The contact details whose changes are recorded
+export interface TrackedDetails {
+  tags?: string[];
+  category?: string;
+}
+
+class ContactActivityService {
+  // Activity entries for the tag and category differences between two versions of a contact
+  diff(userId: any, contactId: any, before: TrackedDetails, after: TrackedDetails, source: ActivitySource): Partial<IContactActivity>[] {
+    const entries: Partial<IContactActivity>[] = [];
+    const beforeTags = before.tags || [];
+    const afterTags = after.tags || [];
+
+    const addedTags = afterTags.filter(tag => !beforeTags.includes(tag));
+    const removedTags = beforeTags.filter(tag => !afterTags.includes(tag));
+    if (addedTags.length > 0 || removedTags.length > 0) {
+      entries.push({
+        userId,
+        contactId,
+        type: 'tags',
+        source,
+        ...(addedTags.length > 0 && { addedTags }),
+        ...(removedTags.length > 0 && { removedTags })
+      });
+    }
+
+    const fromCategory = before.category || 'general';
+    const toCategory = after.category || 'general';
+    if (fromCategory !== toCategory) {
+      entries.push({ userId, contactId, type: 'category', source, fromCategory, toCategory });
+    }
+
+    return entries;
+  }
+
+  // Save activity entries; a failure is logged rather than failing the change itself
+  async record(entries: Partial<IContactActivity>[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await ContactActivity.insertMany(entries, { ordered: false });
+    } catch (error) {
+      console.error('❌ Failed to record contact activity:', error);
+    }
+  }
+}
+
+export default new ContactActivityService();
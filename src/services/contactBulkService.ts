@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import Contact from '../models/Contact';
+import contactActivityService, { TrackedDetails } from './contactActivityService';
+import contactExportService from './contactExportService';
+
+export const BULK_OPERATION_TYPES = ['add_tags', 'remove_tags', 'set_category', 'deactivate', 'reactivate', 'delete'] as const;
+
+export type BulkOperationType = typeof BULK_OPERATION_TYPES[number];
+
+export interface BulkOperation {
+  type: BulkOperationType;
+  tags?: string[];
+  category?: string;
+}
+
+// Contacts to change: an ID list, or the contact list filters
+export interface BulkTarget {
+  contactIds?: string[];
+  filter?: {
+    search?: string;
+    category?: string | string[];
+    tags?: string | string[];
+    tagMatch?: 'any' | 'all';
+    whatsappStatus?: 'valid' | 'invalid' | 'unknown';
+    status?: 'active' | 'inactive' | 'all'; // Defaults to active contacts, as in the list
+  };
+}
+
+export interface BulkOperationResult {
+  type: BulkOperationType;
+  matched: number;
+  modified: number;
+}
+
+export interface BulkResult {
+  matched?: number;
+  notFound?: number;
+  operations?: BulkOperationResult[];
+  error?: string;
+}
+
+// Contacts per write in a bulk write; keeps each $in list a reasonable size
+const WRITE_CHUNK_SIZE = 1000;
+
+class ContactBulkService {
+  // IDs of the user's contacts the target selects
+  private async resolveTargets(userId: string, target: BulkTarget): Promise<{ ids?: mongoose.Types.ObjectId[]; error?: string }> {
+    if (target.contactIds) {
+      const ids = await Contact.find({ userId, _id: { $in: target.contactIds } }).distinct('_id');
+      return { ids: ids as mongoose.Types.ObjectId[] };
+    }
+
+    const { status = 'active', ...filters } = target.filter;
+    const query: any = { userId };
+    if (status !== 'all') {
+      query.isActive = status === 'active';
+    }
+    const filterError = contactExportService.applyListFilters(query, filters);
+    if (filterError) {
+      return { error: filterError };
+    }
+
+    const ids = await Contact.find(query).distinct('_id');
+    return { ids: ids as mongoose.Types.ObjectId[] };
+  }
+
+  private toUpdate(operation: BulkOperation): any {
+    switch (operation.type) {
+      case 'add_tags':
+        return { $addToSet: { tags: { $each: operation.tags } } };
+      case 'remove_tags':
+        return { $pull: { tags: { $in: operation.tags } } };
+      case 'set_category':
+        return { $set: { category: operation.category } };
+      case 'deactivate':
+        return { $set: { isActive: false } };
+      case 'reactivate':
+        return { $set: { isActive: true } };
+    }
+  }
+
+  // Tags and category of a contact after a tag or category operation
+  private applyToDetails(operation: BulkOperation, contact: TrackedDetails): TrackedDetails {
+    const tags = contact.tags || [];
+    switch (operation.type) {
+      case 'add_tags':
+        return { ...contact, tags: Array.from(new Set([...tags, ...operation.tags])) };
+      case 'remove_tags':
+        return { ...contact, tags: tags.filter(tag => !operation.tags.includes(tag)) };
+      case 'set_category':
+        return { ...contact, category: operation.category };
+      default:
+        return contact;
+    }
+  }
+
+  /**
+   * Apply operations, in order, to the contacts the target selects. The
+   * contacts are picked once up front so an earlier operation (such as
+   * deactivate) does not change which contacts a later one applies to. Each
+   * operation is one bulk write, so the counts are reported per operation.
+   */
+  async apply(userId: string, target: BulkTarget, operations: BulkOperation[]): Promise<BulkResult> {
+    const { ids, error } = await this.resolveTargets(userId, target);
+    if (error) {
+      return { error };
+    }
+
+    const chunks: mongoose.Types.ObjectId[][] = [];
+    for (let i = 0; i < ids.length; i += WRITE_CHUNK_SIZE) {
+      chunks.push(ids.slice(i, i + WRITE_CHUNK_SIZE));
+    }
+
+    const results: BulkOperationResult[] = [];
+    for (const operation of operations) {
+      if (chunks.length === 0) {
+        results.push({ type: operation.type, matched: 0, modified: 0 });
+        continue;
+      }
+
+      if (operation.type === 'delete') {
+        const result = await Contact.bulkWrite(
+          chunks.map(chunk => ({ deleteMany: { filter: { userId, _id: { $in: chunk } } } })),
+          { ordered: false }
+        );
+        results.push({ type: operation.type, matched: result.deletedCount, modified: result.deletedCount });
+        continue;
+      }
+
+      // Tag and category changes show up on the contact timeline, which needs the values before the change
+      const tracked = ['add_tags', 'remove_tags', 'set_category'].includes(operation.type);
+      const before: any[] = [];
+      if (tracked) {
+        for (const chunk of chunks) {
+          before.push(...await Contact.find({ userId, _id: { $in: chunk } }).select('tags category').lean());
+        }
+      }
+
+      const update = this.toUpdate(operation);
+      const result = await Contact.bulkWrite(
+        chunks.map(chunk => ({ updateMany: { filter: { userId, _id: { $in: chunk } }, update } })),
+        { ordered: false }
+      );
+      results.push({ type: operation.type, matched: result.matchedCount, modified: result.modifiedCount });
+
+      await contactActivityService.record(before.flatMap(contact =>
+        contactActivityService.diff(userId, contact._id, contact, this.applyToDetails(operation, contact), 'bulk')));
+    }
+
+    return {
+      matched: ids.length,
+      ...(target.contactIds && { notFound: new Set(target.contactIds).size - ids.length }),
+      operations: results
+    };
+  }
+}
+
+export default new ContactBulkService();
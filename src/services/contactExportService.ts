@@ -0,0 +1,222 @@
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import Contact from '../models/Contact';
+import { IContactField } from '../models/ContactField';
+import contactFieldService from './contactFieldService';
+import { CONTACT_CATEGORIES } from './contactImportService';
+import { escapeFormula } from '../utils/spreadsheet';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  value: (contact: any) => string | number;
+}
+
+const formatDate = (value: any): string => (value instanceof Date ? value.toISOString() : value ? value.toString() : '');
+
+// Built-in columns, in the order they appear when no columns are chosen
+const BASE_COLUMNS: ExportColumn[] = [
+  { key: 'name', header: 'Name', value: contact => contact.name || '' },
+  { key: 'phone', header: 'Phone', value: contact => contact.phone || '' },
+  { key: 'email', header: 'Email', value: contact => contact.email || '' },
+  { key: 'category', header: 'Category', value: contact => contact.category || '' },
+  { key: 'tags', header: 'Tags', value: contact => (contact.tags || []).join(', ') },
+  { key: 'phoneRaw', header: 'Phone As Entered', value: contact => contact.phoneRaw || '' },
+  { key: 'phoneCountry', header: 'Country', value: contact => contact.phoneCountry || '' },
+  { key: 'whatsappStatus', header: 'WhatsApp Status', value: contact => contact.whatsappStatus || 'unknown' },
+  { key: 'whatsappCheckedAt', header: 'WhatsApp Checked At', value: contact => formatDate(contact.whatsappCheckedAt) },
+  { key: 'engagementScore', header: 'Engagement Score', value: contact => contact.engagementScore ?? '' },
+  { key: 'createdAt', header: 'Created At', value: contact => formatDate(contact.createdAt) },
+  { key: 'updatedAt', header: 'Updated At', value: contact => formatDate(contact.updatedAt) },
+];
+
+const DEFAULT_COLUMNS = ['name', 'phone', 'email', 'category', 'tags', 'createdAt'];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value: any): string[] =>
+  (Array.isArray(value) ? value : [value]).flatMap(item => (item || '').toString().split(',')).map(item => item.trim()).filter(item => item);
+
+const escapeCsv = (value: string | number): string => {
+  const text = escapeFormula(value).toString();
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class ContactExportService {
+  /**
+   * Add the contact list filters from a query string to a contact query:
+   * search, category and tags (comma separated; tagMatch=all needs every tag)
+   * and whatsappStatus. The list and the export share them so an export holds
+   * exactly the contacts the user is looking at. Returns why a filter is
+   * invalid, if one is.
+   */
+  applyListFilters(query: any, params: any): string | null {
+    const { search, whatsappStatus, tagMatch } = params;
+    const categories = toList(params.category);
+    const tags = toList(params.tags || params.tag).map(tag => tag.toLowerCase());
+
+    if (whatsappStatus && !['valid', 'invalid', 'unknown'].includes(whatsappStatus)) {
+      return 'whatsappStatus must be one of: valid, invalid, unknown';
+    }
+    if (tagMatch && !['any', 'all'].includes(tagMatch)) {
+      return 'tagMatch must be one of: any, all';
+    }
+    const unknownCategory = categories.find(category => !CONTACT_CATEGORIES.includes(category));
+    if (unknownCategory) {
+      return `Category must be one of: ${CONTACT_CATEGORIES.join(', ')}`;
+    }
+
+    if (search) {
+      const pattern = escapeRegex(search.toString());
+      query.$and = [
+        ...(query.$and || []),
+        {
+          $or: [
+            { name: { $regex: pattern, $options: 'i' } },
+            { phone: { $regex: pattern, $options: 'i' } },
+            { email: { $regex: pattern, $options: 'i' } }
+          ]
+        }
+      ];
+    }
+
+    if (categories.length > 0) {
+      query.category = { $in: categories };
+    }
+    if (tags.length > 0) {
+      query.tags = tagMatch === 'all' ? { $all: tags } : { $in: tags };
+    }
+
+    // Contacts saved before the WhatsApp check existed have no status and count as unknown
+    if (whatsappStatus) {
+      query.whatsappStatus = whatsappStatus === 'unknown' ? { $in: ['unknown', null] } : whatsappStatus;
+    }
+
+    return null;
+  }
+
+  private customColumn(field: IContactField): ExportColumn {
+    return {
+      key: field.key,
+      header: field.label,
+      value: contact => {
+        const value = contact.customFields?.[field.key];
+        if (value === undefined || value === null) return '';
+        // Dates without the time, the form the importer reads back
+        if (value instanceof Date) return field.type === 'date' ? value.toISOString().slice(0, 10) : value.toISOString();
+        return value;
+      }
+    };
+  }
+
+  /**
+   * Columns to export from a comma separated list of keys: built-in columns
+   * and the keys of the user's custom fields. Without a list, the default
+   * columns followed by every custom field are exported.
+   */
+  async resolveColumns(userId: string, requested: any): Promise<{ columns?: ExportColumn[]; error?: string }> {
+    const fields = await contactFieldService.getFields(userId);
+    const keys = toList(requested);
+
+    if (keys.length === 0) {
+      return {
+        columns: [
+          ...BASE_COLUMNS.filter(column => DEFAULT_COLUMNS.includes(column.key)),
+          ...fields.map(field => this.customColumn(field))
+        ]
+      };
+    }
+
+    const columns: ExportColumn[] = [];
+    for (const key of Array.from(new Set(keys))) {
+      const base = BASE_COLUMNS.find(column => column.key === key);
+      const field = fields.find(f => f.key === key);
+      if (!base && !field) {
+        return { error: `Unknown column: ${key}` };
+      }
+      columns.push(base || this.customColumn(field));
+    }
+    return { columns };
+  }
+
+  private contacts(query: any) {
+    return Contact.find(query).sort({ createdAt: -1 }).lean().cursor();
+  }
+
+  // Wait until the response can take more data, or the client has gone away
+  private drained(res: Response): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+
+  /**
+   * Stream matching contacts as CSV, one row at a time straight from the
+   * database cursor, pausing whenever the client is slower than the query.
+   * Returns the number of contacts written.
+   */
+  async writeCsv(res: Response, query: any, columns: ExportColumn[]): Promise<number> {
+    const cursor = this.contacts(query);
+    let count = 0;
+
+    try {
+      res.write(`${columns.map(column => escapeCsv(column.header)).join(',')}\n`);
+      for await (const contact of cursor) {
+        if (res.destroyed) break;
+        const line = `${columns.map(column => escapeCsv(column.value(contact))).join(',')}\n`;
+        count++;
+        if (!res.write(line)) {
+          await this.drained(res);
+        }
+      }
+      res.end();
+    } finally {
+      await cursor.close();
+    }
+
+    return count;
+  }
+
+  /**
+   * Stream matching contacts as an XLSX workbook. Rows are committed as they
+   * are read, so the workbook is zipped into the response as it grows instead
+   * of being built in memory first. Returns the number of contacts written.
+   */
+  async writeXlsx(res: Response, query: any, columns: ExportColumn[]): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+    const sheet = workbook.addWorksheet('Contacts');
+    sheet.columns = columns.map(column => ({ header: escapeFormula(column.header), key: column.key, width: 20 }));
+
+    const cursor = this.contacts(query);
+    let count = 0;
+
+    try {
+      for await (const contact of cursor) {
+        if (res.destroyed) break;
+        sheet.addRow(columns.map(column => escapeFormula(column.value(contact)))).commit();
+        count++;
+        if (res.writableNeedDrain) {
+          await this.drained(res);
+        }
+      }
+      if (!res.destroyed) {
+        sheet.commit();
+        await workbook.commit();
+      }
+    } finally {
+      await cursor.close();
+    }
+
+    return count;
+  }
+}
+
+export default new ContactExportService();
@@ -0,0 +1,141 @@
+import ContactField, { IContactField } from '../models/ContactField';
+import { IContact } from '../models/Contact';
+
+// Names already used by contacts or templates, so custom fields cannot shadow them
+export const RESERVED_KEYS = [
+  'name', 'firstName', 'phone', 'email', 'category', 'tags',
+  'spaName', 'spaLocation', 'spaPhone', 'mapUrl'
+];
+
+const MAX_STRING_LENGTH = 500;
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FieldValue = string | number | Date;
+
+interface CoerceResult {
+  value?: FieldValue | null; // null clears the field
+  error?: string;
+}
+
+class ContactFieldService {
+  async getFields(userId: string): Promise<IContactField[]> {
+    return ContactField.find({ userId }).sort({ createdAt: 1 });
+  }
+
+  private parseDate(raw: any): Date | null {
+    if (raw instanceof Date) {
+      return isNaN(raw.getTime()) ? null : raw;
+    }
+    if (typeof raw === 'number') {
+      return raw > 0 && raw < 100000 ? new Date(EXCEL_EPOCH + Math.round(raw) * DAY_MS) : null;
+    }
+
+    const text = raw.toString().trim();
+    // Day-first dates, as used in the rest of the app (DD/MM/YYYY, DD-MM-YYYY)
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (dayFirst) {
+      const [, day, month, year] = dayFirst.map(part => parseInt(part));
+      const date = new Date(Date.UTC(year, month - 1, day));
+      return date.getUTCMonth() === month - 1 ? date : null;
+    }
+
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Convert a submitted or imported value to the field's type
+  coerceValue(field: Pick<IContactField, 'label' | 'type' | 'options'>, raw: any): CoerceResult {
+    if (raw === undefined || raw === null || raw.toString().trim() === '') {
+      return { value: null };
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const value = typeof raw === 'number' ? raw : parseFloat(raw.toString().replace(/,/g, ''));
+        return isNaN(value) ? { error: `${field.label} must be a number` } : { value };
+      }
+      case 'date': {
+        const value = this.parseDate(raw);
+        return value ? { value } : { error: `${field.label} must be a date` };
+      }
+      case 'enum': {
+        const option = field.options.find(o => o.toLowerCase() === raw.toString().trim().toLowerCase());
+        return option ? { value: option } : { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+      }
+      default: {
+        const value = raw.toString().trim();
+        return value.length > MAX_STRING_LENGTH
+          ? { error: `${field.label} cannot exceed ${MAX_STRING_LENGTH} characters` }
+          : { value };
+      }
+    }
+  }
+
+  // Check a { key: value } object against the user's fields; unknown keys are errors
+  validateValues(fields: IContactField[], input: any): { values: { [key: string]: FieldValue | null }; errors: string[] } {
+    const values: { [key: string]: FieldValue | null } = {};
+    const errors: string[] = [];
+
+    if (input === undefined || input === null) {
+      return { values, errors };
+    }
+    if (typeof input !== 'object' || Array.isArray(input)) {
+      return { values, errors: ['customFields must be an object of field values'] };
+    }
+
+    Object.entries(input).forEach(([key, raw]) => {
+      const field = fields.find(f => f.key === key);
+      if (!field) {
+        errors.push(`Unknown custom field: ${key}`);
+        return;
+      }
+
+      const result = this.coerceValue(field, raw);
+      if (result.error) {
+        errors.push(result.error);
+      } else {
+        values[key] = result.value;
+      }
+    });
+
+    return { values, errors };
+  }
+
+  // Set validated values on a contact; null values remove the field
+  applyValues(contact: IContact, values: { [key: string]: FieldValue | null }): void {
+    if (Object.keys(values).length === 0) return;
+
+    if (!contact.customFields) {
+      contact.customFields = new Map();
+    }
+    Object.entries(values).forEach(([key, value]) => {
+      if (value === null) {
+        contact.customFields.delete(key);
+      } else {
+        contact.customFields.set(key, value);
+      }
+    });
+  }
+
+  // Custom field values as text, for template rendering
+  getTemplateValues(contact: Pick<IContact, 'customFields'>): { [key: string]: string } {
+    const customFields: any = contact.customFields || {};
+    const entries: Array<[string, any]> = customFields instanceof Map
+      ? Array.from(customFields.entries())
+      : Object.entries(customFields);
+
+    const values: { [key: string]: string } = {};
+    entries.forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      values[key] = value instanceof Date
+        ? value.toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+        : value.toString();
+    });
+    return values;
+  }
+}
+
+export default new ContactFieldService();
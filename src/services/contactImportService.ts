@@ -0,0 +1,417 @@
+import XLSX from 'xlsx';
+import Contact, { IContact } from '../models/Contact';
+import { IContactField } from '../models/ContactField';
+import { IContactImport } from '../models/ContactImport';
+import redis from '../config/redis';
+import contactActivityService from './contactActivityService';
+import contactFieldService from './contactFieldService';
+import phoneService from './phoneService';
+import { escapeFormula } from '../utils/spreadsheet';
+
+export const CONTACT_CATEGORIES = ['general', 'vip', 'customer', 'lead', 'partner', 'other'];
+
+// Built-in mapping targets; custom fields are mapped as "custom:<key>"
+const BASE_TARGETS = ['name', 'phone', 'email', 'category', 'tags'];
+
+// Header names recognised for each built-in target when suggesting a mapping
+const HEADER_SYNONYMS: { [target: string]: string[] } = {
+  name: ['name', 'contact name', 'full name', 'customer name', 'client name'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile number', 'number', 'whatsapp', 'whatsapp number', 'contact number'],
+  email: ['email', 'email address', 'e-mail', 'mail'],
+  category: ['category', 'type', 'group'],
+  tags: ['tags', 'tag', 'labels']
+};
+
+const EMAIL_PATTERN = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
+
+// Uploaded rows wait in Redis between the preview and the commit, then for as
+// long as the import job may need them to resume
+const ROWS_TTL_SECONDS = 60 * 60;
+const QUEUED_ROWS_TTL_SECONDS = 24 * 60 * 60;
+const PREVIEW_ROWS = 20;
+export const IMPORT_CHUNK_SIZE = 500;
+
+export interface ImportOptions {
+  mapping: { [header: string]: string };
+  duplicatePolicy: 'skip' | 'update' | 'merge_tags';
+  defaultCategory?: string;
+  defaultTags?: string[];
+  defaultCountry?: string; // For numbers without a country code; the user's default country
+}
+
+export interface PreparedRow {
+  row: number;
+  name?: string;
+  phone?: string;
+  error?: string;
+  contact?: {
+    name: string;
+    phone: string; // E.164
+    phoneRaw: string;
+    phoneCountry?: string;
+    phoneForms: string[]; // Forms the number may already be stored in
+    email?: string;
+    category?: string;
+    tags: string[];
+    customFields: { [key: string]: any };
+  };
+}
+
+export interface ChunkResult {
+  result: { created: number; updated: number; skipped: number; failed: number };
+  rowErrors: IContactImport['rowErrors'];
+}
+
+const cell = (value: any): string => (value === undefined || value === null ? '' : value.toString().trim());
+
+class ContactImportService {
+  private rowsKey(importId: string): string {
+    return `contact-import:${importId}:rows`;
+  }
+
+  // Header row and data rows of the first sheet
+  parseFile(buffer: Buffer): { headers: string[]; rows: any[] } {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!worksheet) {
+      return { headers: [], rows: [] };
+    }
+
+    const headerRow = (XLSX.utils.sheet_to_json(worksheet, { header: 1 })[0] || []) as any[];
+    const headers = headerRow.map(cell).filter(header => header);
+    const rows = XLSX.utils.sheet_to_json(worksheet, { defval: '' });
+
+    return { headers, rows };
+  }
+
+  async saveRows(importId: string, rows: any[]): Promise<void> {
+    await redis.set(this.rowsKey(importId), JSON.stringify(rows), 'EX', ROWS_TTL_SECONDS);
+  }
+
+  // Keep the rows around until a queued import has finished
+  async retainRows(importId: string): Promise<boolean> {
+    return (await redis.expire(this.rowsKey(importId), QUEUED_ROWS_TTL_SECONDS)) === 1;
+  }
+
+  async loadRows(importId: string): Promise<any[] | null> {
+    const stored = await redis.get(this.rowsKey(importId));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async clearRows(importId: string): Promise<void> {
+    await redis.del(this.rowsKey(importId));
+  }
+
+  // Guess a target for each header from common names and the user's custom fields
+  suggestMapping(headers: string[], fields: IContactField[]): { [header: string]: string } {
+    const mapping: { [header: string]: string } = {};
+    const used = new Set<string>();
+
+    headers.forEach(header => {
+      const normalized = header.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+      let target = Object.keys(HEADER_SYNONYMS).find(t => HEADER_SYNONYMS[t].includes(normalized));
+      if (!target) {
+        const field = fields.find(f => [f.key.toLowerCase(), f.label.toLowerCase()].includes(normalized));
+        target = field ? `custom:${field.key}` : undefined;
+      }
+
+      if (target && !used.has(target)) {
+        mapping[header] = target;
+        used.add(target);
+      } else {
+        mapping[header] = 'ignore';
+      }
+    });
+
+    return mapping;
+  }
+
+  // Check a mapping against the file's headers; returns the first problem
+  validateMapping(mapping: { [header: string]: string }, headers: string[], fields: IContactField[]): string | null {
+    const targets: string[] = [];
+
+    for (const [header, target] of Object.entries(mapping || {})) {
+      if (!headers.includes(header)) {
+        return `Column "${header}" is not in the file`;
+      }
+      if (target === 'ignore') continue;
+
+      const isCustom = target.startsWith('custom:') && fields.some(f => `custom:${f.key}` === target);
+      if (!BASE_TARGETS.includes(target) && !isCustom) {
+        return `Unknown mapping target "${target}" for column "${header}"`;
+      }
+      if (targets.includes(target)) {
+        return `More than one column is mapped to ${target}`;
+      }
+      targets.push(target);
+    }
+
+    if (!targets.includes('name') || !targets.includes('phone')) {
+      return 'Map a column to name and a column to phone';
+    }
+    return null;
+  }
+
+  /**
+   * Apply the mapping and defaults to every row and validate the result. A
+   * phone that appears twice in the file is only imported from its first row.
+   */
+  prepareRows(rows: any[], options: ImportOptions, fields: IContactField[]): PreparedRow[] {
+    const columnFor = (target: string) => Object.keys(options.mapping).find(header => options.mapping[header] === target);
+    const nameColumn = columnFor('name');
+    const phoneColumn = columnFor('phone');
+    const emailColumn = columnFor('email');
+    const categoryColumn = columnFor('category');
+    const tagsColumn = columnFor('tags');
+    const customColumns = fields
+      .map(field => ({ field, column: columnFor(`custom:${field.key}`) }))
+      .filter(custom => custom.column);
+
+    const seenPhones = new Map<string, number>();
+
+    return rows.map((raw, i) => {
+      const row = i + 2; // Row 1 holds the headers
+      const name = cell(raw[nameColumn]);
+      const phoneRaw = cell(raw[phoneColumn]);
+      const prepared: PreparedRow = { row, name, phone: phoneRaw };
+
+      if (!name || !phoneRaw) {
+        return { ...prepared, error: 'Name and phone number are required' };
+      }
+      if (name.length > 100) {
+        return { ...prepared, error: 'Name cannot exceed 100 characters' };
+      }
+      const normalized = phoneService.normalize(phoneRaw, options.defaultCountry);
+      if (normalized.error) {
+        return { ...prepared, error: normalized.error };
+      }
+      const phone = normalized.phone.e164;
+      if (seenPhones.has(phone)) {
+        return { ...prepared, error: `Duplicate of row ${seenPhones.get(phone)} in this file` };
+      }
+
+      const email = emailColumn ? cell(raw[emailColumn]).toLowerCase() : '';
+      if (email && !EMAIL_PATTERN.test(email)) {
+        return { ...prepared, error: 'Invalid email address' };
+      }
+
+      let category = categoryColumn ? cell(raw[categoryColumn]).toLowerCase() : '';
+      if (category && !CONTACT_CATEGORIES.includes(category)) {
+        return { ...prepared, error: `Category must be one of: ${CONTACT_CATEGORIES.join(', ')}` };
+      }
+      category = category || options.defaultCategory;
+
+      const rowTags = tagsColumn
+        ? cell(raw[tagsColumn]).split(/[,;]/).map(tag => tag.trim().toLowerCase()).filter(tag => tag)
+        : [];
+      const tags = Array.from(new Set([...rowTags, ...(options.defaultTags || [])]));
+
+      const customValues: { [key: string]: any } = {};
+      customColumns.forEach(({ field, column }) => { customValues[field.key] = raw[column]; });
+      const customFields = contactFieldService.validateValues(fields, customValues);
+      if (customFields.errors.length > 0) {
+        return { ...prepared, error: customFields.errors.join('; ') };
+      }
+
+      seenPhones.set(phone, row);
+      return {
+        ...prepared,
+        contact: {
+          name,
+          phone,
+          phoneRaw,
+          phoneCountry: normalized.phone.country,
+          phoneForms: phoneService.legacyForms(normalized.phone),
+          email: email || undefined,
+          category: category || undefined,
+          tags,
+          customFields: customFields.values
+        }
+      };
+    });
+  }
+
+  // The user's contacts for the prepared rows, by the rows' E.164 numbers. Contacts
+  // saved before numbers were normalized are matched on their stored form.
+  private async findExisting(userId: string, prepared: PreparedRow[]) {
+    const valid = prepared.filter(row => row.contact);
+    const contacts = await Contact.find({ userId, phone: { $in: valid.flatMap(row => row.contact.phoneForms) } });
+    const byStoredPhone = new Map(contacts.map(contact => [contact.phone, contact]));
+
+    const existing = new Map<string, IContact>();
+    valid.forEach(row => {
+      const form = row.contact.phoneForms.find(phoneForm => byStoredPhone.has(phoneForm));
+      if (form) existing.set(row.contact.phone, byStoredPhone.get(form));
+    });
+    return existing;
+  }
+
+  // Validation summary and the first rows as they would be imported
+  async preview(userId: string, rows: any[], options: ImportOptions, fields: IContactField[]) {
+    const prepared = this.prepareRows(rows, options, fields);
+    const existing = await this.findExisting(userId, prepared);
+    const valid = prepared.filter(row => row.contact);
+
+    return {
+      totalRows: rows.length,
+      validRows: valid.length,
+      invalidRows: prepared.length - valid.length,
+      existingContacts: valid.filter(row => existing.has(row.contact.phone)).length,
+      rows: prepared.slice(0, PREVIEW_ROWS).map(row => ({
+        row: row.row,
+        contact: row.contact,
+        error: row.error,
+        existing: row.contact ? existing.has(row.contact.phone) : undefined
+      })),
+      errors: prepared.filter(row => row.error).slice(0, PREVIEW_ROWS).map(row => ({ row: row.row, error: row.error }))
+    };
+  }
+
+  /**
+   * Write one chunk of prepared rows with a single lookup and a single bulk
+   * write. Existing contacts (matched on phone) are skipped, updated with the
+   * row's values, or only get the row's tags added, depending on the duplicate
+   * policy. Deleted contacts are brought back.
+   */
+  async importChunk(userId: string, prepared: PreparedRow[], duplicatePolicy: ImportOptions['duplicatePolicy']): Promise<ChunkResult> {
+    const existing = await this.findExisting(userId, prepared);
+
+    const result = { created: 0, updated: 0, skipped: 0, failed: 0 };
+    const rowErrors: IContactImport['rowErrors'] = [];
+    const ops: any[] = [];
+    const opRows: PreparedRow[] = [];
+    const opActivities: any[][] = []; // Tag and category changes each update makes, for the contact timeline
+
+    prepared.forEach(row => {
+      if (!row.contact) {
+        rowErrors.push({ row: row.row, name: row.name, phone: row.phone, error: row.error });
+        return;
+      }
+
+      const { contact } = row;
+      // Empty cells leave a field untouched rather than clearing it
+      const customValues: { [key: string]: any } = {};
+      const customSet: { [path: string]: any } = {};
+      Object.entries(contact.customFields).forEach(([key, value]) => {
+        if (value === null) return;
+        customValues[key] = value;
+        customSet[`customFields.${key}`] = value;
+      });
+
+      const current = existing.get(contact.phone);
+      const mergedTags = current ? Array.from(new Set([...(current.tags || []), ...contact.tags])) : contact.tags;
+      if (!current) {
+        ops.push({
+          insertOne: {
+            document: {
+              userId,
+              name: contact.name,
+              phone: contact.phone,
+              phoneRaw: contact.phoneRaw,
+              phoneCountry: contact.phoneCountry,
+              email: contact.email,
+              category: contact.category || 'general',
+              tags: contact.tags,
+              customFields: customValues
+            }
+          }
+        });
+        opActivities.push([]);
+      } else if (!current.isActive || duplicatePolicy === 'update') {
+        ops.push({
+          updateOne: {
+            filter: { _id: current._id },
+            update: {
+              $set: {
+                name: contact.name,
+                phone: contact.phone,
+                phoneRaw: contact.phoneRaw,
+                phoneCountry: contact.phoneCountry,
+                isActive: true,
+                ...(contact.email && { email: contact.email }),
+                ...(contact.category && { category: contact.category }),
+                ...customSet
+              },
+              ...(contact.tags.length > 0 && { $addToSet: { tags: { $each: contact.tags } } })
+            }
+          }
+        });
+        opActivities.push(contactActivityService.diff(userId, current._id, current, {
+          tags: mergedTags,
+          category: contact.category || current.category
+        }, 'import'));
+      } else if (duplicatePolicy === 'merge_tags' && contact.tags.length > 0) {
+        ops.push({
+          updateOne: {
+            filter: { _id: current._id },
+            update: { $addToSet: { tags: { $each: contact.tags } } }
+          }
+        });
+        opActivities.push(contactActivityService.diff(userId, current._id, current, { tags: mergedTags, category: current.category }, 'import'));
+      } else {
+        result.skipped++;
+        return;
+      }
+      opRows.push(row);
+    });
+
+    const failedIndexes = new Map<number, string>();
+    if (ops.length > 0) {
+      try {
+        await Contact.bulkWrite(ops, { ordered: false });
+      } catch (error: any) {
+        // Unordered writes carry on past failures (e.g. a contact added meanwhile) and report them here
+        if (!error?.writeErrors) throw error;
+        error.writeErrors.forEach((writeError: any) => {
+          failedIndexes.set(writeError.index, writeError.code === 11000 ? 'Contact already exists' : writeError.errmsg);
+        });
+      }
+    }
+
+    ops.forEach((op, i) => {
+      const row = opRows[i];
+      if (failedIndexes.has(i)) {
+        rowErrors.push({ row: row.row, name: row.name, phone: row.phone, error: failedIndexes.get(i) });
+      } else if (op.insertOne) {
+        result.created++;
+      } else {
+        result.updated++;
+      }
+    });
+    await contactActivityService.record(opActivities.filter((activities, i) => !failedIndexes.has(i)).flat());
+
+    result.failed = rowErrors.length;
+    rowErrors.sort((a, b) => a.row - b.row);
+
+    return { result, rowErrors };
+  }
+
+  private errorRows(contactImport: IContactImport) {
+    return contactImport.rowErrors.map(rowError => ({
+      Row: rowError.row,
+      // Cells come back as uploaded, so a name like "=HYPERLINK(...)" must not run when the report is opened
+      Name: escapeFormula(rowError.name || ''),
+      Phone: escapeFormula(rowError.phone || ''),
+      Error: escapeFormula(rowError.error)
+    }));
+  }
+
+  // Every rejected row as CSV
+  errorsToCsv(contactImport: IContactImport): string {
+    return XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(this.errorRows(contactImport), { header: ['Row', 'Name', 'Phone', 'Error'] }));
+  }
+
+  // Every rejected row as an XLSX workbook
+  errorsToXlsx(contactImport: IContactImport): Buffer {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(this.errorRows(contactImport), { header: ['Row', 'Name', 'Phone', 'Error'] }),
+      'Rejected Rows'
+    );
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+}
+
+export default new ContactImportService();
@@ -0,0 +1,299 @@
+import mongoose from 'mongoose';
+import Contact, { IContact } from '../models/Contact';
+import ContactMerge, { IContactMerge } from '../models/ContactMerge';
+import Message from '../models/Message';
+import ConversationState from '../models/ConversationState';
+import ConversationHistory from '../models/ConversationHistory';
+import contactActivityService from './contactActivityService';
+import phoneService from './phoneService';
+
+// How long a merge can be undone
+export const UNDO_WINDOW_HOURS = 24;
+
+// Names at least this similar (0-1) are reported as possible duplicates
+const NAME_SIMILARITY = 0.85;
+// Name buckets larger than this are skipped; they are common names, not duplicates
+const MAX_NAME_BUCKET = 200;
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateGroup {
+  reasons: DuplicateReason[];
+  suggestedSurvivorId: any;
+  contacts: IContact[];
+}
+
+// Result of a merge or undo: the merge record, or why it was refused and the HTTP status to answer with
+export interface MergeResult {
+  merge?: IContactMerge;
+  error?: string;
+  status?: number;
+}
+
+// Lower-case name tokens in a fixed order, so "Sharma Rahul" and "rahul  sharma" match
+const nameKey = (name: string): string =>
+  (name || '').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(token => token).sort().join(' ');
+
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const longer = Math.max(a.length, b.length);
+  if (longer === 0) return 1;
+
+  // Levenshtein distance over a single row
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longer;
+};
+
+class ContactMergeService {
+  // Number a contact's WhatsApp conversations are stored under (digits, with country code)
+  private conversationPhone(phone: string, defaultCountry: string): string {
+    const normalized = phoneService.normalize(phone, defaultCountry).phone;
+    return normalized ? normalized.e164.slice(1) : phone.replace(/\D/g, '');
+  }
+
+  /**
+   * Group the user's active contacts that look like the same person: the same
+   * number once normalized, the same email, or nearly the same full name.
+   * Contacts linked through any of these end up in one group.
+   */
+  async findDuplicates(userId: string, defaultCountry: string): Promise<DuplicateGroup[]> {
+    const contacts = await Contact.find({ userId, isActive: true }).sort({ createdAt: 1 });
+
+    // Union-find over contact indexes
+    const parent = contacts.map((contact, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const reasons = new Map<string, Set<DuplicateReason>>(); // "i:j" of linked pairs -> reasons
+    const link = (i: number, j: number, reason: DuplicateReason) => {
+      parent[find(j)] = find(i);
+      const key = `${Math.min(i, j)}:${Math.max(i, j)}`;
+      reasons.set(key, (reasons.get(key) || new Set()).add(reason));
+    };
+
+    const linkSameKey = (keyOf: (contact: IContact) => string | null, reason: DuplicateReason) => {
+      const firstByKey = new Map<string, number>();
+      contacts.forEach((contact, i) => {
+        const key = keyOf(contact);
+        if (!key) return;
+        if (firstByKey.has(key)) {
+          link(firstByKey.get(key), i, reason);
+        } else {
+          firstByKey.set(key, i);
+        }
+      });
+    };
+
+    linkSameKey(contact => phoneService.normalize(contact.phone, defaultCountry).phone?.e164 || null, 'phone');
+    linkSameKey(contact => (contact.email ? contact.email.trim().toLowerCase() : null), 'email');
+
+    // Only full names are compared, single first names match far too often
+    const nameBuckets = new Map<string, number[]>();
+    const keys = contacts.map(contact => nameKey(contact.name));
+    keys.forEach((key, i) => {
+      if (key.split(' ').length < 2) return;
+      const bucket = key.slice(0, 3);
+      nameBuckets.set(bucket, [...(nameBuckets.get(bucket) || []), i]);
+    });
+    nameBuckets.forEach(indexes => {
+      if (indexes.length > MAX_NAME_BUCKET) return;
+      for (let a = 0; a < indexes.length; a++) {
+        for (let b = a + 1; b < indexes.length; b++) {
+          if (similarity(keys[indexes[a]], keys[indexes[b]]) >= NAME_SIMILARITY) {
+            link(indexes[a], indexes[b], 'name');
+          }
+        }
+      }
+    });
+
+    const groups = new Map<number, number[]>();
+    contacts.forEach((contact, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => {
+        const groupReasons = new Set<DuplicateReason>();
+        reasons.forEach((pairReasons, key) => {
+          if (members.includes(Number(key.split(':')[0]))) {
+            pairReasons.forEach(reason => groupReasons.add(reason));
+          }
+        });
+
+        return {
+          reasons: Array.from(groupReasons),
+          // The oldest contact usually carries the most history
+          suggestedSurvivorId: contacts[members[0]]._id,
+          contacts: members.map(i => contacts[i])
+        };
+      })
+      .sort((a, b) => b.contacts.length - a.contacts.length);
+  }
+
+  /**
+   * Merge duplicates into the survivor. Tags are combined, and custom fields,
+   * email and category the survivor lacks are taken from the duplicates in
+   * order. Campaign messages and WhatsApp conversations move to the survivor
+   * and the duplicates are removed. Everything changed is recorded for undo.
+   */
+  async merge(userId: string, survivorId: string, duplicateIds: string[], defaultCountry: string): Promise<MergeResult> {
+    const uniqueIds = Array.from(new Set(duplicateIds.filter(id => id !== survivorId)));
+    if (uniqueIds.length === 0) {
+      return { error: 'Select at least one contact to merge into the survivor', status: 400 };
+    }
+
+    const survivor = await Contact.findOne({ _id: survivorId, userId, isActive: true });
+    if (!survivor) {
+      return { error: 'Survivor contact not found', status: 404 };
+    }
+    const duplicates = await Contact.find({ _id: { $in: uniqueIds }, userId, isActive: true });
+    if (duplicates.length !== uniqueIds.length) {
+      return { error: 'Some contacts to merge are invalid or not found', status: 400 };
+    }
+
+    const merge = new ContactMerge({
+      userId,
+      survivorId: survivor._id,
+      mergedContactIds: duplicates.map(duplicate => duplicate._id),
+      survivorBefore: survivor.toObject({ flattenMaps: true }),
+      mergedContacts: duplicates.map(duplicate => duplicate.toObject({ flattenMaps: true })),
+      repointed: { messages: [], histories: [], states: [] },
+      removedStates: [],
+      undoExpiresAt: new Date(Date.now() + UNDO_WINDOW_HOURS * 60 * 60 * 1000)
+    });
+
+    // Combine the contact details
+    survivor.tags = Array.from(new Set([...(survivor.tags || []), ...duplicates.flatMap(duplicate => duplicate.tags || [])]));
+    for (const duplicate of duplicates) {
+      if (!survivor.email && duplicate.email) survivor.email = duplicate.email;
+      if ((!survivor.category || survivor.category === 'general') && duplicate.category && duplicate.category !== 'general') {
+        survivor.category = duplicate.category;
+      }
+      duplicate.customFields?.forEach((value, key) => {
+        if (!survivor.customFields) survivor.customFields = new Map();
+        if (!survivor.customFields.has(key)) survivor.customFields.set(key, value);
+      });
+    }
+
+    // Campaign messages
+    for (const duplicate of duplicates) {
+      const messageIds = await Message.find({ userId, contactId: duplicate._id }).distinct('_id') as mongoose.Types.ObjectId[];
+      if (messageIds.length > 0) {
+        await Message.updateMany({ _id: { $in: messageIds } }, { contactId: survivor._id });
+        merge.repointed.messages.push({ contactId: duplicate._id as mongoose.Types.ObjectId, messageIds });
+      }
+    }
+
+    // WhatsApp conversations are keyed by number, so only other numbers need moving
+    const survivorPhone = this.conversationPhone(survivor.phone, defaultCountry);
+    let survivorHasState = !!(await ConversationState.exists({ userId, customerPhone: survivorPhone }));
+
+    for (const duplicate of duplicates) {
+      const duplicatePhone = this.conversationPhone(duplicate.phone, defaultCountry);
+      if (duplicatePhone === survivorPhone) continue;
+
+      const historyIds = await ConversationHistory.find({ userId, customerPhone: duplicatePhone }).distinct('_id') as mongoose.Types.ObjectId[];
+      if (historyIds.length > 0) {
+        await ConversationHistory.updateMany({ _id: { $in: historyIds } }, { customerPhone: survivorPhone });
+        merge.repointed.histories.push({ customerPhone: duplicatePhone, historyIds });
+      }
+
+      const state = await ConversationState.findOne({ userId, customerPhone: duplicatePhone });
+      if (!state) continue;
+      if (survivorHasState) {
+        // One state per number; the survivor's own conversation wins
+        merge.removedStates.push(state.toObject());
+        await state.deleteOne();
+      } else {
+        await ConversationState.updateOne({ _id: state._id }, { customerPhone: survivorPhone });
+        merge.repointed.states.push({ stateId: state._id as mongoose.Types.ObjectId, customerPhone: duplicatePhone });
+        survivorHasState = true;
+      }
+    }
+
+    await survivor.save();
+    await merge.save();
+    await Contact.deleteMany({ _id: { $in: duplicates.map(duplicate => duplicate._id) }, userId });
+    await contactActivityService.record(contactActivityService.diff(userId, survivor._id, merge.survivorBefore, survivor, 'merge'));
+
+    return { merge };
+  }
+
+  /**
+   * Reverse a merge within the undo window: the removed contacts come back
+   * with their own messages and conversations, and the survivor's details are
+   * restored to what they were before the merge.
+   */
+  async undo(userId: string, mergeId: string): Promise<MergeResult> {
+    const merge = await ContactMerge.findOne({ _id: mergeId, userId });
+    if (!merge) {
+      return { error: 'Merge not found', status: 404 };
+    }
+    if (merge.status !== 'merged') {
+      return { error: 'This merge has already been undone', status: 400 };
+    }
+    if (merge.undoExpiresAt.getTime() < Date.now()) {
+      return { error: `Merges can only be undone within ${UNDO_WINDOW_HOURS} hours`, status: 400 };
+    }
+
+    // A contact added since with one of the removed numbers would block the restore
+    const phones = merge.mergedContacts.map(contact => contact.phone);
+    const conflicts = await Contact.find({ userId, phone: { $in: phones } }).select('name phone');
+    if (conflicts.length > 0) {
+      return { error: `Contacts with these numbers were added since the merge: ${conflicts.map(contact => contact.phone).join(', ')}`, status: 409 };
+    }
+
+    // Claim the merge so it cannot be undone twice
+    const claimed = await ContactMerge.findOneAndUpdate(
+      { _id: merge._id, status: 'merged' },
+      { status: 'undone', undoneAt: new Date() },
+      { new: true }
+    );
+    if (!claimed) {
+      return { error: 'This merge has already been undone', status: 400 };
+    }
+
+    await Contact.insertMany(merge.mergedContacts);
+
+    // Only the details a merge fills in are put back
+    const before = merge.survivorBefore;
+    const restore: { [field: string]: any } = {};
+    const clear: { [field: string]: 1 } = {};
+    ['tags', 'email', 'category', 'customFields'].forEach(field => {
+      if (before[field] === undefined) {
+        clear[field] = 1;
+      } else {
+        restore[field] = before[field];
+      }
+    });
+    // Returns the survivor as it was before the restore, to record what the undo changed
+    const survivor = await Contact.findOneAndUpdate({ _id: merge.survivorId, userId }, { $set: restore, $unset: clear });
+    if (survivor) {
+      await contactActivityService.record(contactActivityService.diff(userId, survivor._id, survivor, before, 'merge_undo'));
+    }
+
+    for (const { contactId, messageIds } of merge.repointed.messages) {
+      await Message.updateMany({ _id: { $in: messageIds }, contactId: merge.survivorId }, { contactId });
+    }
+    for (const { customerPhone, historyIds } of merge.repointed.histories) {
+      await ConversationHistory.updateMany({ _id: { $in: historyIds } }, { customerPhone });
+    }
+    for (const { stateId, customerPhone } of merge.repointed.states) {
+      await ConversationState.updateOne({ _id: stateId }, { customerPhone });
+    }
+    if (merge.removedStates.length > 0) {
+      await ConversationState.insertMany(merge.removedStates);
+    }
+
+    return { merge: claimed };
+  }
+}
+
+export default new ContactMergeService();
@@ -0,0 +1,125 @@
+import Message from '../models/Message';
+import ConversationHistory from '../models/ConversationHistory';
+import ConversationState from '../models/ConversationState';
+import ContactActivity from '../models/ContactActivity';
+import { IContact } from '../models/Contact';
+import phoneService from './phoneService';
+
+export type TimelineEventType = 'campaign_message' | 'conversation' | 'booking' | 'tags_changed' | 'category_changed';
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  at: Date;
+  [detail: string]: any;
+}
+
+export interface TimelinePage {
+  events: TimelineEvent[];
+  total: number;
+}
+
+class ContactTimelineService {
+  // The conversation booking, if the customer got as far as choosing a service
+  private bookingEvent(state: any): TimelineEvent | null {
+    const ctx = state?.context;
+    if (!ctx || !(ctx.selectedService || ctx.bookingConfirmed || ctx.bookingCancelled)) {
+      return null;
+    }
+
+    return {
+      type: 'booking',
+      at: ctx.lastBookedAt || ctx.lastActivity || state.updatedAt,
+      status: ctx.bookingConfirmed ? 'confirmed' : ctx.bookingCancelled ? 'cancelled' : 'in_progress',
+      customerName: ctx.customerName,
+      service: ctx.selectedService ? {
+        name: ctx.selectedService.name,
+        duration: ctx.selectedService.duration,
+        price: ctx.selectedService.price
+      } : undefined,
+      preferredDate: ctx.preferredDate,
+      preferredTime: ctx.preferredTime
+    };
+  }
+
+  /**
+   * One contact's history, newest first: campaign messages, the auto-reply
+   * conversation, the booking it captured and tag/category changes. Each
+   * source is read up to the end of the requested page and the results are
+   * merged, so deeper pages cost more but no source is read in full.
+   */
+  async getTimeline(userId: string, contact: IContact, defaultCountry: string, page: number, limit: number): Promise<TimelinePage> {
+    const depth = page * limit;
+    // Conversations are stored under the WhatsApp number: digits with country code
+    const normalized = phoneService.normalize(contact.phone, defaultCountry).phone;
+    const customerPhone = normalized ? normalized.e164.slice(1) : contact.phone.replace(/\D/g, '');
+
+    const [messages, histories, activities, state, messageCount, historyCount, activityCount] = await Promise.all([
+      Message.find({ userId, contactId: contact._id })
+        .sort({ createdAt: -1 })
+        .limit(depth)
+        .select('bulkMessageId aiRewrittenMessage status sentAt deliveredAt readAt repliedAt replyCount errorMessage createdAt')
+        .lean(),
+      ConversationHistory.find({ userId, customerPhone })
+        .sort({ timestamp: -1 })
+        .limit(depth)
+        .select('messageType message step timestamp')
+        .lean(),
+      ContactActivity.find({ userId, contactId: contact._id }).sort({ createdAt: -1 }).limit(depth).lean(),
+      ConversationState.findOne({ userId, customerPhone }).select('context updatedAt').lean(),
+      Message.countDocuments({ userId, contactId: contact._id }),
+      ConversationHistory.countDocuments({ userId, customerPhone }),
+      ContactActivity.countDocuments({ userId, contactId: contact._id })
+    ]);
+
+    const events: TimelineEvent[] = [
+      ...messages.map(message => ({
+        type: 'campaign_message' as const,
+        at: message.createdAt,
+        messageId: message._id,
+        campaignId: message.bulkMessageId,
+        message: message.aiRewrittenMessage,
+        status: message.status,
+        sentAt: message.sentAt,
+        deliveredAt: message.deliveredAt,
+        readAt: message.readAt,
+        repliedAt: message.repliedAt,
+        replyCount: message.replyCount,
+        errorMessage: message.errorMessage
+      })),
+      ...histories.map(history => ({
+        type: 'conversation' as const,
+        at: history.timestamp,
+        direction: history.messageType,
+        message: history.message,
+        step: history.step
+      })),
+      ...activities.map(activity => activity.type === 'tags'
+        ? {
+          type: 'tags_changed' as const,
+          at: activity.createdAt,
+          source: activity.source,
+          addedTags: activity.addedTags || [],
+          removedTags: activity.removedTags || []
+        }
+        : {
+          type: 'category_changed' as const,
+          at: activity.createdAt,
+          source: activity.source,
+          fromCategory: activity.fromCategory,
+          toCategory: activity.toCategory
+        })
+    ];
+
+    const booking = this.bookingEvent(state);
+    if (booking) events.push(booking);
+
+    events.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+    return {
+      events: events.slice((page - 1) * limit, depth),
+      total: messageCount + historyCount + activityCount + (booking ? 1 : 0)
+    };
+  }
+}
+
+export default new ContactTimelineService();
@@ -0,0 +1,155 @@
+import mongoose from 'mongoose';
+import Contact, { IContact } from '../models/Contact';
+import Message from '../models/Message';
+import ConversationHistory from '../models/ConversationHistory';
+import ConversationState from '../models/ConversationState';
+import User from '../models/User';
+import phoneService from './phoneService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points each signal is worth; together they make 100
+const WEIGHTS = {
+  delivered: 15,
+  read: 20,
+  replied: 25,
+  recency: 25,
+  booking: 15
+};
+// Recency points halve for every this many days since the last interaction
+const RECENCY_HALF_LIFE_DAYS = 30;
+const WRITE_BATCH_SIZE = 500;
+
+export type EngagementStats = IContact['engagement'];
+
+// Score bands shown in the engagement overview, from the lowest score up
+export const ENGAGEMENT_BANDS = [
+  { name: 'cold', min: 0 },
+  { name: 'cool', min: 20 },
+  { name: 'warm', min: 40 },
+  { name: 'hot', min: 70 }
+];
+
+class EngagementService {
+  /**
+   * Score from 0 to 100. Delivery, read and reply rates of campaign messages
+   * show whether the number is alive and the contact responds; a contact who
+   * wrote to the auto-reply counts as reachable and responsive. Recent
+   * interaction and a confirmed booking add the rest.
+   */
+  score(stats: EngagementStats, now: Date = new Date()): number {
+    const talked = stats.conversations > 0;
+    const rate = (count: number) => (stats.attempted > 0 ? Math.min(count / stats.attempted, 1) : 0);
+
+    let score = WEIGHTS.delivered * (talked ? 1 : rate(stats.delivered))
+      + WEIGHTS.read * (talked ? 1 : rate(stats.read))
+      + WEIGHTS.replied * (talked ? 1 : rate(stats.replied));
+
+    if (stats.lastInteractionAt) {
+      const days = Math.max(now.getTime() - new Date(stats.lastInteractionAt).getTime(), 0) / DAY_MS;
+      score += WEIGHTS.recency * Math.pow(0.5, days / RECENCY_HALF_LIFE_DAYS);
+    }
+    if (stats.bookings > 0) {
+      score += WEIGHTS.booking;
+    }
+
+    return Math.min(Math.round(score), 100);
+  }
+
+  // Number a contact's WhatsApp conversations are stored under (digits, with country code)
+  private conversationPhone(phone: string, defaultCountry: string): string {
+    const normalized = phoneService.normalize(phone, defaultCountry).phone;
+    return normalized ? normalized.e164.slice(1) : phone.replace(/\D/g, '');
+  }
+
+  /**
+   * Recompute the engagement score of every contact of a user from their
+   * campaign messages, auto-reply conversations and confirmed bookings.
+   * Returns the number of contacts scored.
+   */
+  async scoreUser(userId: string): Promise<number> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const user = await User.findById(userId).select('settings');
+    const defaultCountry = phoneService.getDefaultCountry(user?.settings);
+
+    const [messageStats, conversationStats, bookings] = await Promise.all([
+      Message.aggregate([
+        { $match: { userId: userObjectId } },
+        {
+          $group: {
+            _id: '$contactId',
+            attempted: { $sum: { $cond: [{ $in: ['$status', ['sent', 'delivered', 'read', 'failed']] }, 1, 0] } },
+            delivered: { $sum: { $cond: [{ $in: ['$status', ['delivered', 'read']] }, 1, 0] } },
+            read: { $sum: { $cond: [{ $eq: ['$status', 'read'] }, 1, 0] } },
+            replied: { $sum: { $cond: [{ $ifNull: ['$repliedAt', false] }, 1, 0] } },
+            lastInteractionAt: { $max: { $max: ['$readAt', '$repliedAt'] } }
+          }
+        }
+      ]),
+      ConversationHistory.aggregate([
+        { $match: { userId: userObjectId, messageType: 'incoming' } },
+        { $group: { _id: '$customerPhone', count: { $sum: 1 }, lastAt: { $max: '$timestamp' } } }
+      ]),
+      ConversationState.find({ userId: userObjectId, 'context.bookingConfirmed': true })
+        .select('customerPhone context.lastBookedAt')
+        .lean()
+    ]);
+
+    const messagesByContact = new Map(messageStats.map(stats => [stats._id?.toString(), stats]));
+    const conversationsByPhone = new Map(conversationStats.map(stats => [stats._id, stats]));
+    const bookingsByPhone = new Map(bookings.map(state => [state.customerPhone, state]));
+
+    const now = new Date();
+    const latest = (...dates: any[]): Date | undefined => {
+      const times = dates.filter(date => date).map(date => new Date(date).getTime());
+      return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+    };
+
+    let ops: any[] = [];
+    let scored = 0;
+    const cursor = Contact.find({ userId: userObjectId }).select('phone').lean().cursor();
+
+    try {
+      for await (const contact of cursor) {
+        const messages = messagesByContact.get(contact._id.toString());
+        const phone = this.conversationPhone(contact.phone, defaultCountry);
+        const conversation = conversationsByPhone.get(phone);
+        const booking = bookingsByPhone.get(phone);
+
+        const stats: EngagementStats = {
+          attempted: messages?.attempted || 0,
+          delivered: messages?.delivered || 0,
+          read: messages?.read || 0,
+          replied: messages?.replied || 0,
+          conversations: conversation?.count || 0,
+          bookings: booking ? 1 : 0,
+          lastInteractionAt: latest(messages?.lastInteractionAt, conversation?.lastAt, booking?.context?.lastBookedAt)
+        };
+
+        ops.push({
+          updateOne: {
+            filter: { _id: contact._id },
+            update: { $set: { engagementScore: this.score(stats, now), engagement: stats, engagementScoredAt: now } },
+            timestamps: false // Rescoring is not an edit of the contact
+          }
+        });
+        scored++;
+
+        if (ops.length >= WRITE_BATCH_SIZE) {
+          await Contact.bulkWrite(ops, { ordered: false });
+          ops = [];
+        }
+      }
+
+      if (ops.length > 0) {
+        await Contact.bulkWrite(ops, { ordered: false });
+      }
+    } finally {
+      await cursor.close();
+    }
+
+    return scored;
+  }
+}
+
+export default new EngagementService();
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { MessageMedia } from 'whatsapp-web.js';
+import MediaAsset, { IMediaAsset, MediaKind } from '../models/MediaAsset';
+
+const MB = 1024 * 1024;
+
+// Accepted upload types and WhatsApp's size limit for each kind
+const MEDIA_TYPES: { [mimetype: string]: { kind: MediaKind; extension: string } } = {
+  'image/jpeg': { kind: 'image', extension: '.jpg' },
+  'image/png': { kind: 'image', extension: '.png' },
+  'image/webp': { kind: 'image', extension: '.webp' },
+  'application/pdf': { kind: 'document', extension: '.pdf' },
+  'application/msword': { kind: 'document', extension: '.doc' },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { kind: 'document', extension: '.docx' },
+  'application/vnd.ms-excel': { kind: 'document', extension: '.xls' },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': { kind: 'document', extension: '.xlsx' },
+  'video/mp4': { kind: 'video', extension: '.mp4' },
+  'video/3gpp': { kind: 'video', extension: '.3gp' },
+  'audio/ogg': { kind: 'audio', extension: '.ogg' },
+  'audio/mpeg': { kind: 'audio', extension: '.mp3' },
+  'audio/mp4': { kind: 'audio', extension: '.m4a' },
+  'audio/aac': { kind: 'audio', extension: '.aac' },
+  'audio/amr': { kind: 'audio', extension: '.amr' },
+};
+
+export const MAX_MEDIA_SIZE: { [kind in MediaKind]: number } = {
+  image: 5 * MB,
+  document: 50 * MB,
+  video: 16 * MB,
+  audio: 16 * MB,
+};
+
+// Largest upload multer should accept before the per-kind check
+export const MAX_UPLOAD_SIZE = Math.max(...Object.values(MAX_MEDIA_SIZE));
+
+// Loaded media kept in memory so a campaign does not re-read the file for every message
+const CACHE_SIZE = 10;
+
+interface MediaAttachment {
+  media: MessageMedia;
+  sendAsVoice: boolean;
+}
+
+class MediaService {
+  private readonly mediaPath: string;
+  private cache: Map<string, MediaAttachment> = new Map();
+
+  constructor() {
+    this.mediaPath = process.env.MEDIA_PATH || './uploads/media';
+  }
+
+  isSupportedType(mimetype: string): boolean {
+    return !!MEDIA_TYPES[mimetype];
+  }
+
+  /**
+   * Store an uploaded file on disk and record it. Voice notes are only
+   * possible for audio; ogg/opus recordings default to being sent as one.
+   */
+  async saveUpload(userId: string, file: Express.Multer.File, sendAsVoice?: boolean): Promise<IMediaAsset> {
+    const type = MEDIA_TYPES[file.mimetype];
+    if (!type) {
+      throw new Error('Unsupported media type');
+    }
+    if (file.size > MAX_MEDIA_SIZE[type.kind]) {
+      throw new Error(`${type.kind} files cannot exceed ${MAX_MEDIA_SIZE[type.kind] / MB}MB`);
+    }
+
+    const asset = new MediaAsset({
+      userId,
+      kind: type.kind,
+      mimetype: file.mimetype,
+      originalName: file.originalname,
+      size: file.size,
+      sendAsVoice: type.kind === 'audio' && (sendAsVoice ?? file.mimetype === 'audio/ogg')
+    });
+    asset.storagePath = path.join(userId, `${asset._id}${type.extension}`);
+
+    const fullPath = path.join(this.mediaPath, asset.storagePath);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, file.buffer);
+
+    try {
+      await asset.save();
+    } catch (error) {
+      await fs.promises.unlink(fullPath).catch(() => undefined);
+      throw error;
+    }
+
+    return asset;
+  }
+
+  // Load an asset as a whatsapp-web.js attachment, or null if it no longer exists
+  async getAttachment(mediaId: string): Promise<MediaAttachment | null> {
+    const cached = this.cache.get(mediaId);
+    if (cached) {
+      return cached;
+    }
+
+    const asset = await MediaAsset.findById(mediaId);
+    if (!asset) {
+      return null;
+    }
+
+    const data = await fs.promises.readFile(path.join(this.mediaPath, asset.storagePath));
+    const attachment: MediaAttachment = {
+      media: new MessageMedia(asset.mimetype, data.toString('base64'), asset.originalName, asset.size),
+      sendAsVoice: asset.sendAsVoice
+    };
+
+    this.cache.set(mediaId, attachment);
+    if (this.cache.size > CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+
+    return attachment;
+  }
+
+  async deleteAsset(asset: IMediaAsset): Promise<void> {
+    this.cache.delete(asset._id.toString());
+    await fs.promises.unlink(path.join(this.mediaPath, asset.storagePath)).catch(() => undefined);
+    await asset.deleteOne();
+  }
+}
+
+export default new MediaService();
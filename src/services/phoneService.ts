@@ -0,0 +1,155 @@
+const DEFAULT_COUNTRY = 'IN';
+
+interface CountryPlan {
+  callingCode: string;
+  lengths: [number, number]; // Min and max digits of the national number, without trunk prefix
+  trunkPrefix?: string; // Dialled before national numbers inside the country, dropped in E.164
+}
+
+// Numbering plans of the countries we can normalize national numbers for
+export const COUNTRY_PLANS: { [country: string]: CountryPlan } = {
+  IN: { callingCode: '91', lengths: [10, 10], trunkPrefix: '0' },
+  US: { callingCode: '1', lengths: [10, 10], trunkPrefix: '1' },
+  CA: { callingCode: '1', lengths: [10, 10], trunkPrefix: '1' },
+  GB: { callingCode: '44', lengths: [9, 10], trunkPrefix: '0' },
+  AE: { callingCode: '971', lengths: [8, 9], trunkPrefix: '0' },
+  SA: { callingCode: '966', lengths: [8, 9], trunkPrefix: '0' },
+  QA: { callingCode: '974', lengths: [8, 8] },
+  KW: { callingCode: '965', lengths: [8, 8] },
+  OM: { callingCode: '968', lengths: [8, 8] },
+  BH: { callingCode: '973', lengths: [8, 8] },
+  PK: { callingCode: '92', lengths: [10, 10], trunkPrefix: '0' },
+  BD: { callingCode: '880', lengths: [10, 10], trunkPrefix: '0' },
+  LK: { callingCode: '94', lengths: [9, 9], trunkPrefix: '0' },
+  NP: { callingCode: '977', lengths: [8, 10], trunkPrefix: '0' },
+  SG: { callingCode: '65', lengths: [8, 8] },
+  MY: { callingCode: '60', lengths: [9, 10], trunkPrefix: '0' },
+  ID: { callingCode: '62', lengths: [9, 12], trunkPrefix: '0' },
+  PH: { callingCode: '63', lengths: [10, 10], trunkPrefix: '0' },
+  TH: { callingCode: '66', lengths: [8, 9], trunkPrefix: '0' },
+  AU: { callingCode: '61', lengths: [9, 9], trunkPrefix: '0' },
+  NZ: { callingCode: '64', lengths: [8, 10], trunkPrefix: '0' },
+  ZA: { callingCode: '27', lengths: [9, 9], trunkPrefix: '0' },
+  NG: { callingCode: '234', lengths: [10, 10], trunkPrefix: '0' },
+  KE: { callingCode: '254', lengths: [9, 9], trunkPrefix: '0' },
+  EG: { callingCode: '20', lengths: [9, 10], trunkPrefix: '0' },
+  DE: { callingCode: '49', lengths: [7, 12], trunkPrefix: '0' },
+  FR: { callingCode: '33', lengths: [9, 9], trunkPrefix: '0' },
+  IT: { callingCode: '39', lengths: [6, 11] }, // The leading 0 of landlines is kept in E.164
+  ES: { callingCode: '34', lengths: [9, 9] },
+  NL: { callingCode: '31', lengths: [9, 9], trunkPrefix: '0' },
+  BR: { callingCode: '55', lengths: [10, 11], trunkPrefix: '0' },
+  MX: { callingCode: '52', lengths: [10, 10] },
+};
+
+export const SUPPORTED_COUNTRIES = Object.keys(COUNTRY_PLANS);
+
+export interface NormalizedPhone {
+  e164: string; // "+" followed by country code and national number
+  country?: string; // ISO 3166-1 alpha-2, when the calling code is one we know
+  national: string;
+}
+
+// E.164 allows at most 15 digits; the shortest national numbers we accept have 6
+const MIN_DIGITS = 6;
+const MIN_INTERNATIONAL_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+class PhoneService {
+  getDefaultCountry(settings?: any): string {
+    const country = settings?.defaultCountry;
+    return country && COUNTRY_PLANS[country] ? country : DEFAULT_COUNTRY;
+  }
+
+  isSupportedCountry(country: string): boolean {
+    return !!COUNTRY_PLANS[country];
+  }
+
+  private fitsPlan(plan: CountryPlan, national: string): boolean {
+    return national.length >= plan.lengths[0] && national.length <= plan.lengths[1];
+  }
+
+  // Split digits that start with a calling code, preferring the default country on shared codes (+1)
+  private splitInternational(digits: string, defaultCountry: string): NormalizedPhone | null {
+    const candidates = Object.entries(COUNTRY_PLANS)
+      .filter(([, plan]) => digits.startsWith(plan.callingCode))
+      .sort(([a, planA], [b, planB]) =>
+        planB.callingCode.length - planA.callingCode.length || Number(b === defaultCountry) - Number(a === defaultCountry));
+
+    for (const [country, plan] of candidates) {
+      let national = digits.slice(plan.callingCode.length);
+      // "+44 (0)20..." style numbers repeat the trunk prefix after the country code
+      if (plan.trunkPrefix === '0' && national.startsWith('0') && !this.fitsPlan(plan, national)) {
+        national = national.slice(1);
+      }
+      if (this.fitsPlan(plan, national)) {
+        return { e164: `+${plan.callingCode}${national}`, country, national };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Normalize a phone number as typed or stored to E.164. Numbers with a "+"
+   * or "00" prefix are read as international; anything else is read as a
+   * national number of the default country first, then as an international
+   * number whose "+" was left out (as in WhatsApp chat IDs).
+   */
+  normalize(raw: any, defaultCountry?: string): { phone?: NormalizedPhone; error?: string } {
+    const input = raw === undefined || raw === null ? '' : raw.toString().trim();
+    if (!input) {
+      return { error: 'Phone number is required' };
+    }
+
+    const country = defaultCountry && COUNTRY_PLANS[defaultCountry] ? defaultCountry : DEFAULT_COUNTRY;
+    const isInternational = /^(\+|00)/.test(input);
+    let digits = input.replace(/\D/g, '');
+    if (input.startsWith('00')) {
+      digits = digits.slice(2);
+    }
+
+    if (digits.length < MIN_DIGITS || digits.length > MAX_DIGITS) {
+      return { error: `Phone number must be between ${MIN_DIGITS}-${MAX_DIGITS} digits` };
+    }
+
+    if (!isInternational) {
+      const plan = COUNTRY_PLANS[country];
+      const national = plan.trunkPrefix && digits.startsWith(plan.trunkPrefix) && !this.fitsPlan(plan, digits)
+        ? digits.slice(plan.trunkPrefix.length)
+        : digits;
+      if (this.fitsPlan(plan, national)) {
+        return { phone: { e164: `+${plan.callingCode}${national}`, country, national } };
+      }
+    }
+
+    const international = this.splitInternational(digits, country);
+    if (international) {
+      return { phone: international };
+    }
+
+    // Calling codes outside our plans can only be checked for length
+    if (isInternational && digits.length >= MIN_INTERNATIONAL_DIGITS && !digits.startsWith('0')) {
+      return { phone: { e164: `+${digits}`, national: digits } };
+    }
+
+    return { error: isInternational ? 'Invalid international phone number' : `Invalid phone number for ${country}` };
+  }
+
+  // Forms a contact's phone may have been stored in before numbers were normalized
+  legacyForms(phone: NormalizedPhone): string[] {
+    const plan = phone.country ? COUNTRY_PLANS[phone.country] : undefined;
+    return Array.from(new Set([
+      phone.e164,
+      phone.e164.slice(1),
+      phone.national,
+      ...(plan?.trunkPrefix ? [`${plan.trunkPrefix}${phone.national}`] : [])
+    ]));
+  }
+
+  // WhatsApp addresses users by their number without the "+"
+  toChatId(phone: NormalizedPhone): string {
+    return `${phone.e164.slice(1)}@c.us`;
+  }
+}
+
+export default new PhoneService();
@@ -0,0 +1,236 @@
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+// Window used until the user saves their own; campaigns never go out at night by default
+export const DEFAULT_SENDING_WINDOW = {
+  enabled: true,
+  start: '09:00',
+  end: '21:00',
+  blockedDays: [] as string[],
+};
+
+export interface SendingWindow {
+  start: number; // Minutes after local midnight
+  end: number;
+  blockedDays: number[]; // 0 = Sunday
+}
+
+class SchedulingService {
+  private formatters: Map<string, Intl.DateTimeFormat> = new Map(); // Formatter per timezone
+
+  isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Resolve the timezone from user settings, falling back to the app default
+  getUserTimeZone(settings?: any): string {
+    const timeZone = settings?.timezone;
+    return timeZone && this.isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  }
+
+  // Wall-clock parts of an instant as seen in the given timezone
+  getZonedParts(date: Date, timeZone: string): ZonedParts {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'short'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+
+    const parts: { [type: string]: string } = {};
+    formatter.formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+
+    return {
+      year: parseInt(parts.year),
+      month: parseInt(parts.month),
+      day: parseInt(parts.day),
+      hour: parseInt(parts.hour) % 24,
+      minute: parseInt(parts.minute),
+      second: parseInt(parts.second),
+      weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+  }
+
+  // Milliseconds the timezone is ahead of UTC at the given instant
+  private getTimeZoneOffset(date: Date, timeZone: string): number {
+    const parts = this.getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - (date.getTime() - date.getMilliseconds());
+  }
+
+  // Convert a wall-clock time in the given timezone to the matching UTC instant
+  zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    second: number,
+    timeZone: string
+  ): Date {
+    const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+    const offset = this.getTimeZoneOffset(new Date(guess), timeZone);
+    let result = guess - offset;
+
+    // Re-check the offset at the result to handle DST transitions
+    const correctedOffset = this.getTimeZoneOffset(new Date(result), timeZone);
+    if (correctedOffset !== offset) {
+      result = guess - correctedOffset;
+    }
+
+    return new Date(result);
+  }
+
+  /**
+   * Parse a schedule time. Values with an explicit offset (or Z) are used as-is,
+   * plain "YYYY-MM-DDTHH:mm[:ss]" values are read in the given timezone.
+   */
+  parseScheduledAt(value: any, timeZone: string): Date | null {
+    if (typeof value !== 'string' || !value.trim()) {
+      return null;
+    }
+
+    const trimmed = value.trim();
+
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+      const date = new Date(trimmed);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    return this.zonedTimeToUtc(
+      parseInt(year),
+      parseInt(month),
+      parseInt(day),
+      parseInt(hour),
+      parseInt(minute),
+      parseInt(second || '0'),
+      timeZone
+    );
+  }
+
+  /**
+   * Read the sending window from user settings, falling back to the default
+   * window for users who never saved one. Returns null when the user turned
+   * the window off, in which case messages may go out at any time.
+   */
+  getSendingWindow(settings?: any): SendingWindow | null {
+    const window = settings?.sendingWindow || DEFAULT_SENDING_WINDOW;
+    if (!window || !window.enabled) {
+      return null;
+    }
+
+    const toMinutes = (value: string) => {
+      const [hours, minutes] = (value || '').split(':').map(part => parseInt(part));
+      return hours * 60 + minutes;
+    };
+
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    const blockedDays = (window.blockedDays || [])
+      .map((day: string) => DAY_NAMES.indexOf(day))
+      .filter((day: number) => day >= 0);
+
+    if (isNaN(start) || isNaN(end) || start >= end || blockedDays.length >= 7) {
+      return null;
+    }
+
+    return { start, end, blockedDays };
+  }
+
+  isWithinWindow(date: Date, window: SendingWindow | null, timeZone: string): boolean {
+    if (!window) return true;
+
+    const parts = this.getZonedParts(date, timeZone);
+    const minutes = parts.hour * 60 + parts.minute;
+
+    return !window.blockedDays.includes(parts.weekday) && minutes >= window.start && minutes < window.end;
+  }
+
+  // Earliest instant at or after the given date that falls inside the window
+  getNextOpenSlot(date: Date, window: SendingWindow | null, timeZone: string): Date {
+    if (this.isWithinWindow(date, window, timeZone)) {
+      return date;
+    }
+
+    const parts = this.getZonedParts(date, timeZone);
+    const minutes = parts.hour * 60 + parts.minute;
+
+    // Later today if the window has not opened yet, otherwise the next open day
+    for (let offset = 0; offset <= 7; offset++) {
+      if (offset === 0 && minutes >= window.start) continue;
+
+      const day = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + offset));
+      if (window.blockedDays.includes(day.getUTCDay())) continue;
+
+      return this.zonedTimeToUtc(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        Math.floor(window.start / 60),
+        window.start % 60,
+        0,
+        timeZone
+      );
+    }
+
+    return date;
+  }
+
+  /**
+   * Plan send times for a run of messages spaced by delayMs, pushing any
+   * message that would land outside the window to the next open slot.
+   */
+  planSendTimes(startAt: Date, count: number, delayMs: number, window: SendingWindow | null, timeZone: string): Date[] {
+    const times: Date[] = [];
+    let next = this.getNextOpenSlot(startAt, window, timeZone);
+
+    for (let i = 0; i < count; i++) {
+      times.push(next);
+      next = this.getNextOpenSlot(new Date(next.getTime() + delayMs), window, timeZone);
+    }
+
+    return times;
+  }
+
+  // Format an instant as "YYYY-MM-DD HH:mm" in the given timezone
+  formatInTimeZone(date: Date, timeZone: string): string {
+    const parts = this.getZonedParts(date, timeZone);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+  }
+}
+
+export default new SchedulingService();
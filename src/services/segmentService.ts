@@ -0,0 +1,197 @@
+import mongoose from 'mongoose';
+import Contact, { IContact } from '../models/Contact';
+import Message from '../models/Message';
+import User from '../models/User';
+import ContactField, { IContactField } from '../models/ContactField';
+import { ISegmentFilters } from '../models/Segment';
+import suppressionService from './suppressionService';
+import contactFieldService from './contactFieldService';
+import phoneService from './phoneService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FieldFilter = ISegmentFilters['customFields'][number];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Message filter for each campaign condition; the not_* conditions only match contacts the campaign was sent to
+const CONDITION_FILTERS: { [condition: string]: any } = {
+  sent: { status: { $in: ['sent', 'delivered', 'read'] } },
+  delivered: { status: { $in: ['delivered', 'read'] } },
+  read: { status: 'read' },
+  replied: { repliedAt: { $exists: true } },
+  not_delivered: { status: 'sent' },
+  not_read: { status: { $in: ['sent', 'delivered'] } },
+  not_replied: { status: { $in: ['sent', 'delivered', 'read'] }, repliedAt: { $exists: false } }
+};
+
+class SegmentService {
+  // Contacts that read or replied to a campaign message since the given date
+  private async getEngagedContactIds(userId: string, since: Date): Promise<mongoose.Types.ObjectId[]> {
+    return Message.distinct('contactId', {
+      userId,
+      bulkMessageId: { $exists: true },
+      $or: [{ readAt: { $gte: since } }, { repliedAt: { $gte: since } }]
+    });
+  }
+
+  // Query condition for one custom field filter, or why the filter does not fit the field
+  buildFieldCondition(field: IContactField, filter: FieldFilter): { condition?: any; error?: string } {
+    const path = `customFields.${field.key}`;
+    const { operator } = filter;
+
+    if (operator === 'exists') {
+      return { condition: { [path]: { $exists: true, $ne: null } } };
+    }
+    if (operator === 'not_exists') {
+      return { condition: { [path]: null } };
+    }
+
+    if (operator === 'within_last_days' || operator === 'older_than_days') {
+      const days = Number(filter.value);
+      if (field.type !== 'date' || !(days > 0)) {
+        return { error: `${operator} needs a date field and a positive number of days` };
+      }
+      const since = new Date(Date.now() - days * DAY_MS);
+      return { condition: { [path]: operator === 'within_last_days' ? { $gte: since } : { $lt: since } } };
+    }
+
+    if (operator === 'contains') {
+      if (field.type !== 'string' || !filter.value) {
+        return { error: `contains needs a text field and a value` };
+      }
+      return { condition: { [path]: { $regex: escapeRegex(filter.value.toString()), $options: 'i' } } };
+    }
+
+    if (['gt', 'gte', 'lt', 'lte'].includes(operator) && !['number', 'date'].includes(field.type)) {
+      return { error: `${operator} needs a number or date field` };
+    }
+
+    const rawValues = operator === 'in' ? filter.value : [filter.value];
+    if (!Array.isArray(rawValues) || rawValues.length === 0) {
+      return { error: `${field.label} filter needs a value` };
+    }
+
+    const values = [];
+    for (const raw of rawValues) {
+      const result = contactFieldService.coerceValue(field, raw);
+      if (result.error || result.value === null) {
+        return { error: result.error || `${field.label} filter needs a value` };
+      }
+      // Free text matches regardless of case
+      values.push(field.type === 'string' ? new RegExp(`^${escapeRegex(result.value as string)}$`, 'i') : result.value);
+    }
+
+    switch (operator) {
+      case 'in': return { condition: { [path]: { $in: values } } };
+      case 'neq': return { condition: { [path]: field.type === 'string' ? { $not: values[0] } : { $ne: values[0] } } };
+      case 'eq': return { condition: { [path]: values[0] } };
+      default: return { condition: { [path]: { [`$${operator}`]: values[0] } } };
+    }
+  }
+
+  // Check custom field filters against the user's field definitions; returns the first problem
+  async validateFieldFilters(userId: string, filters: ISegmentFilters = {}): Promise<string | null> {
+    if (!filters.customFields || filters.customFields.length === 0) return null;
+
+    const fields = await ContactField.find({ userId });
+    for (const filter of filters.customFields) {
+      const field = fields.find(f => f.key === filter.key);
+      if (!field) return `Unknown custom field: ${filter.key}`;
+
+      const { error } = this.buildFieldCondition(field, filter);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  // Contact query for the filters that can be expressed directly in MongoDB
+  async buildQuery(userId: string, filters: ISegmentFilters = {}): Promise<any> {
+    const conditions: any[] = [{ userId: new mongoose.Types.ObjectId(userId), isActive: true }];
+
+    if (filters.categories && filters.categories.length > 0) {
+      conditions.push({ category: { $in: filters.categories } });
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push({ tags: filters.tagMatch === 'all' ? { $all: filters.tags } : { $in: filters.tags } });
+    }
+    if (filters.excludeTags && filters.excludeTags.length > 0) {
+      conditions.push({ tags: { $nin: filters.excludeTags } });
+    }
+    if (filters.createdAfter || filters.createdBefore) {
+      conditions.push({
+        createdAt: {
+          ...(filters.createdAfter && { $gte: new Date(filters.createdAfter) }),
+          ...(filters.createdBefore && { $lte: new Date(filters.createdBefore) })
+        }
+      });
+    }
+
+    if (filters.engagedWithinDays) {
+      const since = new Date(Date.now() - filters.engagedWithinDays * DAY_MS);
+      conditions.push({ _id: { $in: await this.getEngagedContactIds(userId, since) } });
+    }
+    if (filters.notEngagedWithinDays) {
+      const since = new Date(Date.now() - filters.notEngagedWithinDays * DAY_MS);
+      conditions.push({ _id: { $nin: await this.getEngagedContactIds(userId, since) } });
+    }
+
+    if (filters.minEngagementScore !== undefined || filters.maxEngagementScore !== undefined) {
+      conditions.push({
+        engagementScore: {
+          ...(filters.minEngagementScore !== undefined && { $gte: filters.minEngagementScore }),
+          ...(filters.maxEngagementScore !== undefined && { $lte: filters.maxEngagementScore })
+        }
+      });
+    }
+
+    for (const campaign of filters.campaigns || []) {
+      const contactIds = await Message.distinct('contactId', {
+        userId,
+        bulkMessageId: campaign.bulkMessageId,
+        ...CONDITION_FILTERS[campaign.condition]
+      });
+      conditions.push({ _id: { $in: contactIds } });
+    }
+
+    if (filters.customFields && filters.customFields.length > 0) {
+      const fields = await ContactField.find({ userId });
+      filters.customFields.forEach(filter => {
+        const field = fields.find(f => f.key === filter.key);
+        const { condition, error } = field ? this.buildFieldCondition(field, filter) : { condition: undefined, error: 'unknown field' };
+
+        // A filter that no longer fits its field (e.g. an enum option was removed) matches nobody
+        if (error) {
+          console.warn(`Segment filter on custom field ${filter.key} is invalid: ${error}`);
+          conditions.push({ _id: { $in: [] } });
+        } else {
+          conditions.push(condition);
+        }
+      });
+    }
+
+    return conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+
+  /**
+   * Evaluate the filters against the current contact list. Opt-outs are
+   * matched on phone numbers, so that filter runs after the query.
+   */
+  async evaluate(userId: string, filters: ISegmentFilters = {}): Promise<IContact[]> {
+    const contacts = await Contact.find(await this.buildQuery(userId, filters)).sort({ createdAt: -1 });
+
+    const optOut = filters.optOut || 'exclude';
+    if (optOut === 'include') {
+      return contacts;
+    }
+
+    const user = await User.findById(userId).select('settings');
+    const defaultCountry = phoneService.getDefaultCountry(user?.settings);
+    const suppressedKeys = await suppressionService.getSuppressedKeys(userId, defaultCountry);
+    return contacts.filter(contact =>
+      suppressedKeys.has(suppressionService.getPhoneKey(contact.phone, defaultCountry)) === (optOut === 'only')
+    );
+  }
+}
+
+export default new SegmentService();
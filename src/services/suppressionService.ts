@@ -0,0 +1,128 @@
+import Suppression, { ISuppression } from '../models/Suppression';
+import User from '../models/User';
+import phoneService, { NormalizedPhone } from './phoneService';
+
+// Phrases that opt a contact out wherever they appear in a short message
+const OPT_OUT_PHRASES = [
+  'unsubscribe',
+  'opt out',
+  'optout',
+  'stop messaging',
+  'stop sending',
+  'remove me',
+  'band karo',
+  'band kar do',
+  'band kardo',
+  'band kro',
+  'mat bhejo',
+  'message mat karo',
+];
+
+// Words that only count as an opt-out when they are the whole message
+const OPT_OUT_WORDS = ['stop', 'stop all', 'end', 'quit', 'cancel all', 'band'];
+
+// Longer messages are conversations, not opt-out requests
+const MAX_OPT_OUT_WORDS = 6;
+
+const DEFAULT_CONFIRMATION = 'You have been unsubscribed and will not receive any more broadcast messages from us.';
+
+interface OptOutResult {
+  suppression: ISuppression;
+  isNew: boolean;
+  sendConfirmation: boolean;
+}
+
+class SuppressionService {
+  // Suppressions are matched on the E.164 number, so the same national digits in another country never match
+  getPhoneKey(phone: string, defaultCountry: string): string | null {
+    return phoneService.normalize(phone, defaultCountry).phone?.e164 || null;
+  }
+
+  /**
+   * Forms a number may be stored in on the suppression list. Entries from
+   * before suppressions were keyed on E.164 hold the digits as entered, and a
+   * national number there stands for one in the user's default country.
+   */
+  private storedForms(phone: NormalizedPhone, defaultCountry: string): string[] {
+    return phone.country === defaultCountry ? phoneService.legacyForms(phone) : [phone.e164, phone.e164.slice(1)];
+  }
+
+  // Return the matched opt-out keyword, or null if the message is not an opt-out
+  detectOptOut(messageBody: string): string | null {
+    const normalized = (messageBody || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!normalized || normalized.split(' ').length > MAX_OPT_OUT_WORDS) {
+      return null;
+    }
+
+    if (OPT_OUT_WORDS.includes(normalized)) {
+      return normalized;
+    }
+
+    const padded = ` ${normalized} `;
+    return OPT_OUT_PHRASES.find(phrase => padded.includes(` ${phrase} `)) || null;
+  }
+
+  async findSuppression(userId: string, phone: string, defaultCountry: string): Promise<ISuppression | null> {
+    const normalized = phoneService.normalize(phone, defaultCountry).phone;
+    if (!normalized) {
+      return null;
+    }
+    return Suppression.findOne({ userId, phone: { $in: this.storedForms(normalized, defaultCountry) } });
+  }
+
+  async isSuppressed(userId: string, phone: string, defaultCountry: string): Promise<boolean> {
+    return !!(await this.findSuppression(userId, phone, defaultCountry));
+  }
+
+  // Phone keys of every suppressed number for a user, for filtering large contact lists
+  async getSuppressedKeys(userId: string, defaultCountry: string): Promise<Set<string>> {
+    const suppressions = await Suppression.find({ userId }).select('phone').lean();
+    return new Set(suppressions.map(suppression => this.getPhoneKey(suppression.phone, defaultCountry)).filter(key => key));
+  }
+
+  /**
+   * Add a number to the suppression list after an inbound opt-out. The
+   * confirmation is claimed atomically so it is only ever sent once per
+   * entry, even if the contact repeats the keyword.
+   */
+  async recordOptOut(userId: string, phone: string, keyword: string): Promise<OptOutResult> {
+    const user = await User.findById(userId).select('settings');
+    const defaultCountry = phoneService.getDefaultCountry(user?.settings);
+    let suppression = await this.findSuppression(userId, phone, defaultCountry);
+    const isNew = !suppression;
+
+    if (!suppression) {
+      try {
+        suppression = await Suppression.create({
+          userId,
+          phone: this.getPhoneKey(phone, defaultCountry),
+          reason: 'opt_out',
+          keyword
+        });
+      } catch (error: any) {
+        // Another opt-out from the same number was recorded concurrently
+        if (error?.code !== 11000) throw error;
+        suppression = (await this.findSuppression(userId, phone, defaultCountry))!;
+      }
+    }
+
+    const claimed = await Suppression.updateOne(
+      { _id: suppression._id, confirmationSentAt: { $exists: false } },
+      { confirmationSentAt: new Date() }
+    );
+
+    return { suppression, isNew, sendConfirmation: claimed.modifiedCount > 0 };
+  }
+
+  async getConfirmationMessage(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('settings');
+    return user?.settings?.optOutConfirmationMessage || DEFAULT_CONFIRMATION;
+  }
+}
+
+export default new SuppressionService();
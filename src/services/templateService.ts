@@ -0,0 +1,115 @@
+import { IContact } from '../models/Contact';
+import { IMessageTemplate, ITemplateVariable } from '../models/MessageTemplate';
+import SpaData from '../models/SpaData';
+import aiService from './aiService';
+import contactFieldService from './contactFieldService';
+
+// {{name}} style placeholders, whitespace inside the braces is allowed
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+type TemplateContext = { [variable: string]: string | undefined };
+
+interface RenderResult {
+  text: string;
+  missing: string[];
+}
+
+class TemplateService {
+  // Variable names used in a template body, in order of first appearance
+  extractVariables(body: string): string[] {
+    const names: string[] = [];
+    for (const match of (body || '').matchAll(PLACEHOLDER)) {
+      if (!names.includes(match[1])) {
+        names.push(match[1]);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Keep the declared variables in line with the body: every placeholder gets
+   * an entry (required, no default, unless declared otherwise) and entries for
+   * placeholders that were removed are dropped.
+   */
+  syncVariables(body: string, declared: Array<Partial<ITemplateVariable>> = []): ITemplateVariable[] {
+    return this.extractVariables(body).map(name => {
+      const existing = declared.find(variable => variable?.name === name);
+      return {
+        name,
+        defaultValue: existing?.defaultValue || undefined,
+        required: existing?.required ?? true
+      };
+    });
+  }
+
+  // Values shared by every contact of a user, such as the business name
+  async getSharedContext(userId: string): Promise<TemplateContext> {
+    const spaData = await SpaData.findOne({ userId }).select('spaName location phone mapUrl').lean();
+    return {
+      spaName: spaData?.spaName,
+      spaLocation: spaData?.location,
+      spaPhone: spaData?.phone,
+      mapUrl: spaData?.mapUrl
+    };
+  }
+
+  // Contact values by variable name, including the user's custom fields
+  getContactContext(contact: IContact, shared: TemplateContext = {}): TemplateContext {
+    const name = (contact.name || '').trim();
+    return {
+      ...shared,
+      ...contactFieldService.getTemplateValues(contact),
+      name,
+      firstName: name.split(/\s+/)[0],
+      phone: contact.phone,
+      email: contact.email,
+      category: contact.category,
+      tags: contact.tags && contact.tags.length > 0 ? contact.tags.join(', ') : undefined
+    };
+  }
+
+  // Fill placeholders from the context, falling back to each variable's default
+  render(template: Pick<IMessageTemplate, 'body' | 'variables'>, context: TemplateContext): RenderResult {
+    const missing: string[] = [];
+
+    const text = template.body.replace(PLACEHOLDER, (placeholder, name: string) => {
+      const variable = (template.variables || []).find(v => v.name === name);
+      const value = context[name];
+
+      if (value !== undefined && value !== null && value.toString().trim() !== '') {
+        return value.toString();
+      }
+      if (variable?.defaultValue) {
+        return variable.defaultValue;
+      }
+      if (variable?.required !== false && !missing.includes(name)) {
+        missing.push(name);
+      }
+      return '';
+    });
+
+    return { text: text.replace(/[ \t]{2,}/g, ' ').trim(), missing };
+  }
+
+  // Run spam analysis on the template with defaults filled in and store the result
+  async analyze(template: IMessageTemplate): Promise<IMessageTemplate['lastAnalysis']> {
+    const sample = template.body.replace(PLACEHOLDER, (placeholder, name: string) => {
+      const variable = (template.variables || []).find(v => v.name === name);
+      return variable?.defaultValue || name;
+    });
+
+    const analysis = await aiService.analyzeMessage(sample, template.category);
+
+    template.lastAnalysis = {
+      isSpam: analysis.isSpam,
+      spamWords: analysis.spamWords,
+      complianceScore: analysis.complianceScore,
+      riskLevel: analysis.riskLevel,
+      analyzedAt: new Date()
+    };
+
+    return template.lastAnalysis;
+  }
+}
+
+export default new TemplateService();
@@ -0,0 +1,123 @@
+import redis from '../config/redis';
+import BulkMessage from '../models/BulkMessage';
+import campaignTrackingService from './campaignTrackingService';
+
+// Multiplier applied to the user's message delay at each throttle level
+export const THROTTLE_MULTIPLIERS = [1, 2, 4, 8];
+
+// Recent send attempts considered when looking for clustered failures
+const WINDOW_SIZE = 20;
+const MIN_SAMPLES = 5;
+// Clean sends in a row needed before speeding up again
+const RECOVERY_SAMPLES = 10;
+// Decisions kept on the campaign
+const MAX_DECISIONS = 50;
+
+const DEFAULT_SLOW_DOWN_RATE = 20;
+const DEFAULT_PAUSE_RATE = 50;
+
+// Failures that point at the session or WhatsApp pushing back weigh double;
+// bad numbers, opt-outs and cancellations say nothing about sending health
+const HEAVY_FAILURES = ['evaluation_failed', 'session_error', 'timeout'];
+const IGNORED_FAILURES = ['invalid_number', 'opted_out', 'cancelled'];
+
+export interface ThrottleDecision {
+  action: 'slow_down' | 'speed_up' | 'pause';
+  level: number;
+  failureRate: number;
+  reason: string;
+}
+
+class ThrottleService {
+  private outcomesKey(bulkMessageId: string): string {
+    return `throttle:${bulkMessageId}:outcomes`;
+  }
+
+  getMultiplier(level?: number): number {
+    return THROTTLE_MULTIPLIERS[Math.min(Math.max(level || 0, 0), THROTTLE_MULTIPLIERS.length - 1)];
+  }
+
+  /**
+   * Record the result of one send attempt (errorMessage is undefined on
+   * success) and decide whether the campaign should slow down, speed up or
+   * pause. A decision is stored on the campaign (a pause also sets its status)
+   * and the window starts over, so the next one is based on sends made at the
+   * new pace.
+   */
+  async recordOutcome(bulkMessageId: string, settings: any, errorMessage?: string): Promise<ThrottleDecision | null> {
+    const options = settings?.adaptiveThrottling || {};
+    if (options.enabled === false) {
+      return null;
+    }
+
+    let weight = 0;
+    if (errorMessage !== undefined) {
+      const failureClass = campaignTrackingService.classifyFailure(errorMessage);
+      if (IGNORED_FAILURES.includes(failureClass)) {
+        return null;
+      }
+      weight = HEAVY_FAILURES.includes(failureClass) ? 2 : 1;
+    }
+
+    const key = this.outcomesKey(bulkMessageId);
+    await redis.lpush(key, weight.toString());
+    await redis.ltrim(key, 0, WINDOW_SIZE - 1);
+    await redis.expire(key, 24 * 60 * 60);
+
+    const outcomes = (await redis.lrange(key, 0, -1)).map(value => parseInt(value));
+    if (outcomes.length < MIN_SAMPLES) {
+      return null;
+    }
+
+    const campaign = await BulkMessage.findById(bulkMessageId).select('throttle status');
+    if (!campaign || campaign.status !== 'processing') {
+      return null;
+    }
+
+    const level = campaign.throttle?.level || 0;
+    const maxLevel = THROTTLE_MULTIPLIERS.length - 1;
+    const failureRate = Math.min(100, Math.round(outcomes.reduce((sum, value) => sum + value, 0) / outcomes.length * 100));
+    const failures = outcomes.filter(value => value > 0).length;
+
+    let decision: ThrottleDecision | null = null;
+    if (failureRate >= (options.pauseFailureRate || DEFAULT_PAUSE_RATE)) {
+      decision = { action: 'pause', level, failureRate, reason: `${failures} of the last ${outcomes.length} sends failed` };
+    } else if (failureRate >= (options.slowDownFailureRate || DEFAULT_SLOW_DOWN_RATE)) {
+      decision = level < maxLevel
+        ? { action: 'slow_down', level: level + 1, failureRate, reason: `${failures} of the last ${outcomes.length} sends failed` }
+        : { action: 'pause', level, failureRate, reason: `Sends kept failing at the slowest pace (${failures} of the last ${outcomes.length})` };
+    } else if (level > 0 && outcomes.length >= RECOVERY_SAMPLES && outcomes.slice(0, RECOVERY_SAMPLES).every(value => value === 0)) {
+      decision = { action: 'speed_up', level: level - 1, failureRate, reason: `Last ${RECOVERY_SAMPLES} sends succeeded` };
+    }
+
+    if (!decision) {
+      return null;
+    }
+
+    // Concurrent workers see the same window; only the one that still finds the
+    // campaign at the old level applies the decision (a pause claims the status too)
+    const applied = await BulkMessage.updateOne(
+      { _id: bulkMessageId, status: 'processing', 'throttle.level': level === 0 ? { $in: [0, null] } : level },
+      {
+        $set: {
+          'throttle.level': decision.level,
+          ...(decision.action === 'pause' && { status: 'paused', pausedAt: new Date() })
+        },
+        $push: {
+          'throttle.decisions': {
+            $each: [{ ...decision, multiplier: this.getMultiplier(decision.level), decidedAt: new Date() }],
+            $slice: -MAX_DECISIONS
+          }
+        }
+      }
+    );
+    if (applied.modifiedCount === 0) {
+      return null;
+    }
+
+    await redis.del(key);
+    return decision;
+  }
+}
+
+export default new ThrottleService();
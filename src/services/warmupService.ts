@@ -0,0 +1,159 @@
+import redis from '../config/redis';
+import schedulingService from './schedulingService';
+
+export interface WarmupPolicy {
+  enabled: boolean;
+  startCap: number; // Messages allowed on the first day
+  targetCap: number; // Messages allowed per day once warmed up
+  rampDays: number; // Days to go from startCap to targetCap
+}
+
+// Default ramp: 50 messages on a number's first day, growing to 1,000 by day 14. Off until
+// the user turns it on, as a number already sending before then would restart at day one.
+export const DEFAULT_WARMUP_POLICY: WarmupPolicy = {
+  enabled: false,
+  startCap: 50,
+  targetCap: 1000,
+  rampDays: 14
+};
+
+// Daily counters only need to outlive the day they count
+const USAGE_TTL_SECONDS = 3 * 24 * 60 * 60;
+
+interface WarmupReservation {
+  allowed: boolean;
+  cap: number | null;
+  sentToday: number;
+  resumeAt?: Date; // Start of the next day, when the cap resets
+}
+
+class WarmupService {
+  getPolicy(settings?: any): WarmupPolicy {
+    const policy = { ...DEFAULT_WARMUP_POLICY, ...(settings?.warmup || {}) };
+    policy.rampDays = Math.max(1, policy.rampDays);
+    policy.targetCap = Math.max(policy.startCap, policy.targetCap);
+    return policy;
+  }
+
+  // Daily cap for each day of the ramp; the last entry applies from then on
+  getSchedule(policy: WarmupPolicy): number[] {
+    if (policy.rampDays === 1) {
+      return [policy.targetCap];
+    }
+
+    return Array.from({ length: policy.rampDays }, (_, day) =>
+      Math.round(policy.startCap + (policy.targetCap - policy.startCap) * day / (policy.rampDays - 1))
+    );
+  }
+
+  private dayKey(date: Date, timeZone: string): string {
+    return schedulingService.formatInTimeZone(date, timeZone).slice(0, 10);
+  }
+
+  // Start of the day after the given instant, in the user's timezone
+  private nextDayStart(date: Date, timeZone: string): Date {
+    const parts = schedulingService.getZonedParts(date, timeZone);
+    const tomorrow = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+    return schedulingService.zonedTimeToUtc(
+      tomorrow.getUTCFullYear(),
+      tomorrow.getUTCMonth() + 1,
+      tomorrow.getUTCDate(),
+      0,
+      0,
+      0,
+      timeZone
+    );
+  }
+
+  /**
+   * Days since the number first sent with warm-up on (0 on the first day).
+   * The first day is recorded the first time a send is reserved for the
+   * number while warm-up is enabled, so the ramp starts when the user turns
+   * it on rather than when the number was first seen.
+   */
+  private async getRampDay(number: string, today: string, record: boolean): Promise<number> {
+    const key = `warmup:${number}:first-day`;
+    if (record) {
+      await redis.set(key, today, 'NX');
+    }
+    const firstDay = (await redis.get(key)) || today;
+
+    const toUtc = (day: string) => {
+      const [year, month, date] = day.split('-').map(part => parseInt(part));
+      return Date.UTC(year, month - 1, date);
+    };
+    return Math.max(0, Math.round((toUtc(today) - toUtc(firstDay)) / (24 * 60 * 60 * 1000)));
+  }
+
+  private async getCap(number: string, policy: WarmupPolicy, today: string, record = true): Promise<{ day: number; cap: number }> {
+    const schedule = this.getSchedule(policy);
+    const day = await this.getRampDay(number, today, record);
+    return { day, cap: schedule[Math.min(day, schedule.length - 1)] };
+  }
+
+  /**
+   * Reserve one send for the number today. When the cap is reached nothing is
+   * reserved and resumeAt says when the next day's allowance starts.
+   */
+  async reserveSend(number: string, settings: any, now: Date = new Date()): Promise<WarmupReservation> {
+    const policy = this.getPolicy(settings);
+    const timeZone = schedulingService.getUserTimeZone(settings);
+    const today = this.dayKey(now, timeZone);
+    const usageKey = `warmup:${number}:sent:${today}`;
+
+    if (!policy.enabled) {
+      const sentToday = await redis.incr(usageKey);
+      await redis.expire(usageKey, USAGE_TTL_SECONDS);
+      return { allowed: true, cap: null, sentToday };
+    }
+
+    const { cap } = await this.getCap(number, policy, today);
+    const sentToday = await redis.incr(usageKey);
+    await redis.expire(usageKey, USAGE_TTL_SECONDS);
+
+    if (sentToday > cap) {
+      await redis.decr(usageKey);
+      return { allowed: false, cap, sentToday: sentToday - 1, resumeAt: this.nextDayStart(now, timeZone) };
+    }
+
+    return { allowed: true, cap, sentToday };
+  }
+
+  // Give back a reservation whose message was not sent after all
+  async releaseSend(number: string, settings: any, reservedAt: Date): Promise<void> {
+    const today = this.dayKey(reservedAt, schedulingService.getUserTimeZone(settings));
+    const usageKey = `warmup:${number}:sent:${today}`;
+    if (await redis.decr(usageKey) < 0) {
+      await redis.set(usageKey, 0, 'EX', USAGE_TTL_SECONDS);
+    }
+  }
+
+  // Current cap, today's usage and the ramp schedule, for the status endpoint
+  async getStatus(number: string | null, settings: any, now: Date = new Date()) {
+    const policy = this.getPolicy(settings);
+    const timeZone = schedulingService.getUserTimeZone(settings);
+    const schedule = this.getSchedule(policy);
+
+    if (!number) {
+      return { ...policy, number: null, schedule };
+    }
+
+    const today = this.dayKey(now, timeZone);
+    const sentToday = parseInt((await redis.get(`warmup:${number}:sent:${today}`)) || '0');
+    // Only sends start the ramp; looking at the status must not
+    const { day, cap } = await this.getCap(number, policy, today, false);
+
+    return {
+      ...policy,
+      number,
+      day: day + 1,
+      cap: policy.enabled ? cap : null,
+      sentToday,
+      remainingToday: policy.enabled ? Math.max(0, cap - sentToday) : null,
+      resetsAt: this.nextDayStart(now, timeZone),
+      schedule
+    };
+  }
+}
+
+export default new WarmupService();
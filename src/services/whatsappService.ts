@@ -1,10 +1,13 @@
-import { Client, LocalAuth, Message } from 'whatsapp-web.js';
+import { Client, LocalAuth, Message, MessageMedia } from 'whatsapp-web.js';
 import fs from 'fs';
 import path from 'path';
 import { Server as SocketIOServer } from 'socket.io';
 import QRCode from 'qrcode';
 import dotenv from 'dotenv';
 import autoReplyService from './autoReplyService';
+import campaignTrackingService from './campaignTrackingService';
+import suppressionService from './suppressionService';
+import phoneService from './phoneService';
 dotenv.config();
 
 interface WhatsAppConnection {
@@ -219,6 +222,12 @@ class WhatsAppService {
     }
   }
 
+  emitToUser(userId: string, event: string, payload: any) {
+    if (this.io) {
+      this.io.to(`user-${userId}`).emit(event, payload);
+    }
+  }
+
   private ensureSessionDirectory(): void {
     if (!fs.existsSync(this.sessionPath)) {
       fs.mkdirSync(this.sessionPath, { recursive: true });
@@ -685,7 +694,8 @@ class WhatsAppService {
   async sendMessage(
     userId: string,
     phoneNumber: string,
-    message: string
+    message: string,
+    attachment?: { media: MessageMedia; sendAsVoice?: boolean }
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       console.log(`Attempting to send message for user ${userId} to ${phoneNumber}`);
@@ -708,41 +718,23 @@ class WhatsAppService {
         return { success: false, error: 'WhatsApp client not ready' };
       }
 
-      // Format phone number for India (+91)
-      let formattedNumber = phoneNumber.replace(/\D/g, '');
-
-      // Handle India phone numbers specifically
-      if (formattedNumber.startsWith('91')) {
-        // Already has country code
-        formattedNumber = formattedNumber;
-      } else if (formattedNumber.startsWith('0')) {
-        // Remove leading 0 and add 91
-        formattedNumber = '91' + formattedNumber.substring(1);
-      } else if (formattedNumber.length === 10) {
-        // 10-digit Indian number, add 91
-        formattedNumber = '91' + formattedNumber;
-      } else if (!formattedNumber.startsWith('91') && formattedNumber.length > 10) {
-        // International number, keep as is
-        formattedNumber = formattedNumber;
-      }
-
-      const chatId = `${formattedNumber}@c.us`;
-
-      console.log(`Sending message to chatId: ${chatId} (Original: ${phoneNumber})`);
-
-      // Validate Indian phone number format
-      if (formattedNumber.startsWith('91') && formattedNumber.length !== 12) {
+      const { chatId, error: phoneError } = await this.resolveChatId(userId, phoneNumber);
+      if (!chatId) {
         return {
           success: false,
-          error: 'Invalid Indian phone number format. Please use 10-digit number or +91XXXXXXXXXX'
+          error: `Invalid phone number format: ${phoneError}`
         };
       }
 
+      console.log(`Sending message to chatId: ${chatId} (Original: ${phoneNumber})`);
+
       // Send message using whatsapp-web.js with better error handling
       console.log(`📤 Attempting to send message to ${chatId}`);
 
       try {
-        const sent = await connection.client.sendMessage(chatId, message);
+        const sent = attachment
+          ? await this.sendAttachment(connection.client, chatId, message, attachment)
+          : await connection.client.sendMessage(chatId, message);
 
         console.log(`✅ Message sent successfully to ${chatId}`);
         console.log(`📱 Message ID: ${sent.id?._serialized || sent.id || 'unknown'}`);
@@ -754,8 +746,8 @@ class WhatsAppService {
       } catch (sendError) {
         console.error(`❌ Error sending message to ${chatId}:`, sendError);
 
-        // Check if it's a specific evaluation error
-        if (sendError instanceof Error && sendError.message.includes('Evaluation failed')) {
+        // Check if it's a specific evaluation error (the shortened retry only applies to text)
+        if (!attachment && sendError instanceof Error && sendError.message.includes('Evaluation failed')) {
           console.log(`🔄 Evaluation error detected, trying alternative approach...`);
 
           // Try sending with a simpler message first
@@ -792,6 +784,51 @@ class WhatsAppService {
     }
   }
 
+  // Chat ID for a number, reading numbers without a country code as the user's default country
+  private async resolveChatId(userId: string, phoneNumber: string): Promise<{ chatId?: string; error?: string }> {
+    const User = require('../models/User').default as any;
+    const user = await User.findById(userId).select('settings').lean();
+
+    const { phone, error } = phoneService.normalize(phoneNumber, phoneService.getDefaultCountry(user?.settings));
+    return phone ? { chatId: phoneService.toChatId(phone) } : { error };
+  }
+
+  // Whether a number has a WhatsApp account, using the user's connected client
+  async isRegisteredNumber(userId: string, phoneNumber: string): Promise<{ registered?: boolean; error?: string }> {
+    const connection = this.connections.get(userId);
+    if (!connection || !connection.isConnected || connection.connectionState !== 'open') {
+      return { error: 'WhatsApp not connected' };
+    }
+
+    const { chatId, error } = await this.resolveChatId(userId, phoneNumber);
+    if (!chatId) {
+      return { registered: false, error };
+    }
+
+    return { registered: await connection.client.isRegisteredUser(chatId) };
+  }
+
+  /**
+   * Send media with the message as its caption. Voice notes cannot carry a
+   * caption, so any text follows as a separate message.
+   */
+  private async sendAttachment(
+    client: Client,
+    chatId: string,
+    message: string,
+    attachment: { media: MessageMedia; sendAsVoice?: boolean }
+  ): Promise<Message> {
+    if (attachment.sendAsVoice) {
+      const sent = await client.sendMessage(chatId, attachment.media, { sendAudioAsVoice: true });
+      if (message) {
+        await client.sendMessage(chatId, message);
+      }
+      return sent;
+    }
+
+    return client.sendMessage(chatId, attachment.media, { caption: message || undefined });
+  }
+
   /**
    * Indicate chat state (typing/paused/recording) to a specific chat
    */
@@ -806,16 +843,8 @@ class WhatsAppService {
         return false;
       }
 
-      // Format phone number similar to sendMessage
-      let formattedNumber = phoneNumber.replace(/\D/g, '');
-      if (formattedNumber.startsWith('91')) {
-        formattedNumber = formattedNumber;
-      } else if (formattedNumber.startsWith('0')) {
-        formattedNumber = '91' + formattedNumber.substring(1);
-      } else if (formattedNumber.length === 10) {
-        formattedNumber = '91' + formattedNumber;
-      }
-      const chatId = `${formattedNumber}@c.us`;
+      const { chatId } = await this.resolveChatId(userId, phoneNumber);
+      if (!chatId) return false;
 
       const chat: any = await connection.client.getChatById(chatId);
       if (!chat) return false;
@@ -839,66 +868,6 @@ class WhatsAppService {
     }
   }
 
-  async sendBulkMessages(
-    userId: string,
-    contacts: Array<{ phone: string; message: string; contactId: string }>
-  ): Promise<Array<{ contactId: string; success: boolean; messageId?: string; error?: string }>> {
-    const results = [];
-    const batchSize = 5; // Process 5 messages at a time for better performance
-
-    for (let i = 0; i < contacts.length; i += batchSize) {
-      const batch = contacts.slice(i, i + batchSize);
-
-      // Process batch in parallel with controlled concurrency
-      const batchPromises = batch.map(async (contact) => {
-        try {
-          // Adaptive delay based on batch position (slower at start, faster in middle)
-          const delay = i === 0 ? 2000 : Math.random() * 1000 + 500;
-          await new Promise(resolve => setTimeout(resolve, delay));
-
-          const result = await this.sendMessage(userId, contact.phone, contact.message);
-
-          return {
-            contactId: contact.contactId,
-            success: result.success,
-            messageId: result.messageId,
-            error: result.error,
-          };
-
-        } catch (error) {
-          return {
-            contactId: contact.contactId,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          };
-        }
-      });
-
-      // Wait for batch to complete
-      const batchResults = await Promise.allSettled(batchPromises);
-
-      // Process results
-      batchResults.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          results.push(result.value);
-        } else {
-          results.push({
-            contactId: batch[index].contactId,
-            success: false,
-            error: result.reason?.message || 'Batch processing failed',
-          });
-        }
-      });
-
-      // Add delay between batches to avoid rate limiting
-      if (i + batchSize < contacts.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
-
-    return results;
-  }
-
   /**
    * Send an admin notification using the first available active connection.
    * Admin phone must be set in ENV as ADMIN_PHONE (e.g., +9198XXXXXXXX or 98XXXXXXXX).
@@ -947,6 +916,15 @@ class WhatsAppService {
     };
   }
 
+  // The connected account's own number (digits only), once the client is ready
+  getConnectedNumber(userId: string): string | null {
+    const connection = this.connections.get(userId);
+    if (!connection || !connection.isConnected) {
+      return null;
+    }
+    return connection.client.info?.wid?.user || null;
+  }
+
   hasActiveConnection(userId: string): boolean {
     return this.connections.has(userId);
   }
@@ -1090,6 +1068,62 @@ class WhatsAppService {
 
         console.log(`📨 Incoming message from ${fromNumber}: ${messageBody.substring(0, 50)}...`);
 
+        const optOutKeyword = suppressionService.detectOptOut(messageBody);
+
+        // Attribute the reply to the campaign that triggered it, if any; opt-outs are counted separately
+        try {
+          const attribution = optOutKeyword
+            ? await campaignTrackingService.recordOptOut(userId, fromNumber)
+            : await campaignTrackingService.recordReply(userId, fromNumber);
+          if (attribution && optOutKeyword) {
+            console.log(`🚫 Opt-out from ${fromNumber} attributed to campaign ${attribution.message.bulkMessageId}`);
+            this.emitToUser(userId, 'campaign-opt-out', {
+              messageId: attribution.message._id,
+              bulkMessageId: attribution.message.bulkMessageId,
+              contactId: attribution.message.contactId,
+              optedOutAt: attribution.message.optedOutAt,
+              progress: attribution.bulkMessage ? attribution.bulkMessage.progress : null
+            });
+          } else if (attribution) {
+            console.log(`💬 Reply from ${fromNumber} attributed to campaign ${attribution.message.bulkMessageId}`);
+            this.emitToUser(userId, 'campaign-reply', {
+              messageId: attribution.message._id,
+              bulkMessageId: attribution.message.bulkMessageId,
+              contactId: attribution.message.contactId,
+              repliedAt: attribution.message.repliedAt,
+              replyCount: attribution.message.replyCount,
+              progress: attribution.bulkMessage ? attribution.bulkMessage.progress : null
+            });
+          }
+        } catch (error) {
+          console.error('Error attributing reply to campaign:', error);
+        }
+
+        // Honour opt-out requests before any auto-reply goes out
+        if (optOutKeyword) {
+          // Chat IDs are international numbers without the "+"
+          const optOut = await suppressionService.recordOptOut(userId, `+${fromNumber}`, optOutKeyword);
+          console.log(`🚫 ${fromNumber} opted out with "${optOutKeyword}"`);
+
+          if (optOut.sendConfirmation) {
+            const confirmation = await suppressionService.getConfirmationMessage(userId);
+            const result = await this.sendMessage(userId, fromNumber, confirmation);
+            if (!result.success) {
+              console.error(`Failed to send opt-out confirmation to ${fromNumber}:`, result.error);
+            }
+          }
+
+          if (optOut.isNew) {
+            this.emitToUser(userId, 'contact-opted-out', {
+              suppressionId: optOut.suppression._id,
+              phone: optOut.suppression.phone,
+              keyword: optOutKeyword,
+              createdAt: optOut.suppression.createdAt
+            });
+          }
+          return;
+        }
+
         // Process auto-reply
         await autoReplyService.processMessage(userId, fromNumber, messageBody);
 
@@ -1098,10 +1132,44 @@ class WhatsAppService {
       }
     });
 
+    // Delivery and read receipts for campaign messages
+    this.setupAckListener(userId, client);
+
     // Mark listener as set up
     this.messageListenersSetup.set(userId, true);
     console.log(`✅ Message listener set up for auto-reply for user ${userId}`);
   }
+
+  // Set up ack listener to track delivered/read status of sent messages
+  private setupAckListener(userId: string, client: Client): void {
+    client.on('message_ack', async (message: any, ack: number) => {
+      try {
+        if (!message?.fromMe) {
+          return;
+        }
+
+        const whatsappMessageId = message.id?._serialized || message.id;
+        const update = await campaignTrackingService.recordAck(userId, whatsappMessageId, ack);
+        if (!update) {
+          return;
+        }
+
+        console.log(`📬 Message ${update.message._id} is now ${update.message.status}`);
+
+        this.emitToUser(userId, 'message-status-update', {
+          messageId: update.message._id,
+          bulkMessageId: update.message.bulkMessageId || null,
+          contactId: update.message.contactId,
+          status: update.message.status,
+          deliveredAt: update.message.deliveredAt,
+          readAt: update.message.readAt,
+          progress: update.bulkMessage ? update.bulkMessage.progress : null
+        });
+      } catch (error) {
+        console.error('Error processing message ack:', error);
+      }
+    });
+  }
 }
 
 export default new WhatsAppService();
\ No newline at end of file
@@ -2,9 +2,24 @@ declare module 'whatsapp-web.js' {
   export interface Client {
     initialize(): Promise<void>;
     destroy(): Promise<void>;
-    sendMessage(chatId: string, message: string): Promise<Message>;
+    sendMessage(chatId: string, content: string | MessageMedia, options?: MessageSendOptions): Promise<Message>;
     on(event: string, listener: (...args: any[]) => void): void;
     getChatById(chatId: string): Promise<Chat>;
+    isRegisteredUser(id: string): Promise<boolean>;
+  }
+
+  export interface ClientInfo {
+    wid: {
+      user: string;
+      _serialized: string;
+    };
+    pushname?: string;
+  }
+
+  export interface MessageSendOptions {
+    caption?: string;
+    sendAudioAsVoice?: boolean;
+    sendMediaAsDocument?: boolean;
   }
 
   export interface Message {
@@ -33,11 +48,13 @@ declare module 'whatsapp-web.js' {
         args?: string[];
       };
     });
+    info?: ClientInfo;
     initialize(): Promise<void>;
     destroy(): Promise<void>;
-    sendMessage(chatId: string, message: string): Promise<Message>;
+    sendMessage(chatId: string, content: string | MessageMedia, options?: MessageSendOptions): Promise<Message>;
     on(event: string, listener: (...args: any[]) => void): void;
     getChatById(chatId: string): Promise<Chat>;
+    isRegisteredUser(id: string): Promise<boolean>;
   }
 
   export class LocalAuth {
@@ -48,6 +65,11 @@ declare module 'whatsapp-web.js' {
   }
 
   export class MessageMedia {
+    mimetype: string;
+    data: string;
+    filename?: string | null;
+    filesize?: number | null;
+    constructor(mimetype: string, data: string, filename?: string | null, filesize?: number | null);
     static fromFilePath(filePath: string): Promise<MessageMedia>;
   }
 }
@@ -0,0 +1,15 @@
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// A number in E.164 form cannot call anything, and the importer reads it back as is
+const PHONE_NUMBER = /^\+\d+$/;
+
+/**
+ * Quote text that a spreadsheet would run as a formula (such as a contact
+ * named "=HYPERLINK(...)") so it is shown as text. Numbers are left alone.
+ */
+export const escapeFormula = <T>(value: T): T | string => {
+  if (typeof value !== 'string' || !FORMULA_PREFIX.test(value) || PHONE_NUMBER.test(value)) {
+    return value;
+  }
+  return `'${value}`;
+};